@@ -33,7 +33,8 @@ module.exports = {
         { "target": "src/security", "from": "src/ui" },
         { "target": "src/types", "from": "src/ui" },
         { "target": "src/types", "from": "src/core" },
-        { "target": "src/security", "from": "src/core" }
+        { "target": "src/security", "from": "src/core" },
+        { "target": "src/cli", "from": "src/ui" }
       ]
     }],
   },
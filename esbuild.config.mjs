@@ -10,6 +10,25 @@ if you want to view the source, please visit the github repository of this plugi
 
 const prod = process.argv[2] === "production";
 
+// Headless converter for scripts and CI: a single Node bundle with no Obsidian dependency
+if (process.argv[2] === "cli") {
+  await esbuild.build({
+    banner: {
+      js: `#!/usr/bin/env node\n${banner}`,
+    },
+    entryPoints: ["src/cli/index.ts"],
+    bundle: true,
+    platform: "node",
+    external: [...builtins],
+    format: "cjs",
+    target: "node16",
+    logLevel: "info",
+    treeShaking: true,
+    outfile: "dist/smart-slides-cli.js",
+  });
+  process.exit(0);
+}
+
 const context = await esbuild.context({
   banner: {
     js: banner,
@@ -0,0 +1,194 @@
+import {
+  FRONTMATTER_KEY,
+  GenerationParameters,
+  NoteOverrides,
+  OVERFLOW_MODES,
+  coerceChoice,
+  parseNoteOverrides,
+  resolveGenerationParameters,
+} from '../services/GenerationSettings';
+import type { OverflowMode } from '../services/SlideComposer';
+import { SLIDE_SIZES, SlideSize } from '../services/DeckAssembler';
+import { Result, ok, err } from '../types/Result';
+
+/**
+ * Command line options of the headless converter. Generation parameters go through the same
+ * validation as the `smart-slides:` frontmatter block; a note's own frontmatter still wins.
+ */
+
+export interface CliOptions {
+  inputs: string[]; // markdown files or folders
+  outDir?: string; // mirror the input folders there instead of writing next to each note
+  lexicons?: string; // lexicon pack JSON file
+  corpus?: string; // folder of notes to score key topics against
+  parameters: GenerationParameters;
+  overrides: NoteOverrides; // parameters given on the command line
+  overflow: OverflowMode;
+  sourceNotes: boolean;
+  slideSize: SlideSize;
+  showControls: boolean;
+  report: boolean; // write `<deck>.report.json` next to each deck
+  quiet: boolean;
+}
+
+export type CliCommand = { kind: 'help' } | { kind: 'convert'; options: CliOptions };
+
+// Same defaults as the plugin settings
+export const CLI_DEFAULTS: GenerationParameters = {
+  theme: 'business',
+  maxSlides: 40,
+  layoutStrategy: 'auto',
+  transition: 'none',
+  language: 'auto',
+  titleSlide: false,
+  agendaSlide: false,
+  closingSlide: false,
+  explain: false,
+};
+
+export const USAGE = `Usage: smart-slides [options] <file.md | folder>...
+
+Converts markdown notes into Slides Extended decks. Folders are searched recursively; each
+deck is written as "<note> - Slides.md" next to its note, or under --out.
+
+Options:
+  -o, --out <dir>          write decks under <dir>, mirroring the input folders
+      --theme <name>       business | technical | academic | creative; without it the
+                           theme is picked from the content
+      --max-slides <n>     upper bound for slides, 5-200 (default: 40)
+      --layout <strategy>  auto | static | minimal (default: auto)
+      --transition <name>  none | fade | slide | convex | concave | zoom (default: none)
+      --language <tag>     content language, e.g. en or pl (default: auto)
+      --overflow <mode>    notes | split: where lines past the slide limit go (default: notes)
+      --size <ratio>       16:9 | 4:3 (default: 16:9)
+      --lexicons <file>    lexicon pack JSON file with extra domains and audience cues
+      --corpus <dir>       rank key topics by how rare they are across the notes in <dir>
+      --seed <n>           seed passed to the text generator; reuse the seed from a deck's
+                           fingerprint to regenerate it identically (default: from the note)
+      --title-slide        add a title slide
+      --agenda             add an agenda slide
+      --closing            add a closing slide
+      --explain            also write "<deck> - Explain.md"
+      --source-notes       copy each section's source into the speaker notes
+      --no-controls        hide the navigation arrows
+      --no-report          do not write "<deck>.report.json"
+  -q, --quiet              only print errors
+  -h, --help               show this help
+`;
+
+type ConverterFlags = Omit<CliOptions, 'inputs' | 'parameters' | 'overrides'>;
+
+// Flags taking a value, mapped onto their frontmatter key
+const PARAMETER_FLAGS: Record<string, string> = {
+  '--theme': 'theme',
+  '--max-slides': 'maxSlides',
+  '--layout': 'layout',
+  '--transition': 'transition',
+  '--language': 'language',
+  '--seed': 'seed',
+};
+
+const PARAMETER_SWITCHES: Record<string, string> = {
+  '--title-slide': 'titleSlide',
+  '--agenda': 'agenda',
+  '--closing': 'closing',
+  '--explain': 'explain',
+};
+
+const SWITCHES: Record<string, (flags: ConverterFlags) => void> = {
+  '--source-notes': (flags) => (flags.sourceNotes = true),
+  '--no-controls': (flags) => (flags.showControls = false),
+  '--no-report': (flags) => (flags.report = false),
+  '--quiet': (flags) => (flags.quiet = true),
+  '-q': (flags) => (flags.quiet = true),
+};
+
+const OPTIONS: Record<string, (flags: ConverterFlags, value: string) => boolean> = {
+  '--out': (flags, value) => Boolean((flags.outDir = value)),
+  '-o': (flags, value) => Boolean((flags.outDir = value)),
+  '--lexicons': (flags, value) => Boolean((flags.lexicons = value)),
+  '--corpus': (flags, value) => Boolean((flags.corpus = value)),
+  '--overflow': (flags, value) => {
+    const mode = coerceChoice<OverflowMode | ''>(value, OVERFLOW_MODES, '');
+    if (mode) flags.overflow = mode;
+    return mode !== '';
+  },
+  '--size': (flags, value) => {
+    const size = coerceChoice<SlideSize | ''>(value, SLIDE_SIZES, '');
+    if (size) flags.slideSize = size;
+    return size !== '';
+  },
+};
+
+export function parseCliArgs(argv: string[]): Result<CliCommand, Error> {
+  if (argv.some((arg) => arg === '-h' || arg === '--help')) return ok({ kind: 'help' });
+  const inputs: string[] = [];
+  const block: Record<string, unknown> = {};
+  const flags: ConverterFlags = {
+    overflow: 'notes',
+    sourceNotes: false,
+    slideSize: '16:9',
+    showControls: true,
+    report: true,
+    quiet: false,
+  };
+  for (let i = 0; i < argv.length; i++) {
+    const [flag, inline] = splitInline(argv[i]);
+    if (!/^-./.test(flag)) {
+      inputs.push(argv[i]);
+      continue;
+    }
+    const separate = inline === undefined && takesValue(flag) && isValue(argv[i + 1]);
+    const applied = applyFlag(flag, separate ? argv[++i] : inline, flags, block);
+    if (!applied.ok) return applied;
+  }
+  if (inputs.length === 0) return err(new Error('No input files or folders given'));
+
+  const { overrides, warnings } = parseNoteOverrides({ [FRONTMATTER_KEY]: block });
+  if (warnings.length > 0) return err(new Error(warnings.join('; ')));
+  return ok({
+    kind: 'convert',
+    options: {
+      ...flags,
+      inputs,
+      overrides,
+      parameters: resolveGenerationParameters(CLI_DEFAULTS, overrides),
+    },
+  });
+}
+
+function isValue(arg: string | undefined): boolean {
+  return arg !== undefined && !arg.startsWith('-');
+}
+
+function takesValue(flag: string): boolean {
+  return Boolean(PARAMETER_FLAGS[flag] || OPTIONS[flag]);
+}
+
+function applyFlag(
+  flag: string,
+  value: string | undefined,
+  flags: ConverterFlags,
+  block: Record<string, unknown>,
+): Result<void, Error> {
+  if (PARAMETER_SWITCHES[flag]) {
+    block[PARAMETER_SWITCHES[flag]] = true;
+  } else if (SWITCHES[flag]) {
+    SWITCHES[flag](flags);
+  } else if (!takesValue(flag)) {
+    return err(new Error(`Unknown option ${flag}`));
+  } else if (value === undefined || value === '') {
+    return err(new Error(`${flag} needs a value`));
+  } else if (PARAMETER_FLAGS[flag]) {
+    block[PARAMETER_FLAGS[flag]] = value;
+  } else if (!OPTIONS[flag](flags, value)) {
+    return err(new Error(`Invalid value for ${flag}: ${value}`));
+  }
+  return ok(undefined);
+}
+
+// `--theme=technical` is the same as `--theme technical`
+function splitInline(arg: string): [string, string | undefined] {
+  const eq = arg.indexOf('=');
+  return arg.startsWith('--') && eq > 0 ? [arg.slice(0, eq), arg.slice(eq + 1)] : [arg, undefined];
+}
@@ -0,0 +1,289 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { OrchestratorOutput, PresentationOrchestrator } from '../services/PresentationOrchestrator';
+import { QualityAssuranceService, QualityReport } from '../services/QualityAssuranceService';
+import {
+  GenerationParameters,
+  NoteOverrides,
+  parseNoteOverrides,
+  resolveGenerationParameters,
+} from '../services/GenerationSettings';
+import { renderExplainReport } from '../services/ExplainReport';
+import { segmentLabel } from '../services/SlideBudget';
+import { isGeneratedNote } from '../services/BatchGeneration';
+import { LexiconPack, parseLexiconPacks } from '../services/LexiconPacks';
+import { CorpusIndex } from '../services/CorpusIndex';
+import type { PhraseStats } from '../services/Keyphrases';
+import { resolveOutputPath, resolveSiblingPath } from '../security/SecureFileOperations';
+import { Result, ok, err } from '../types/Result';
+import type { CliOptions } from './CliArguments';
+import { readFrontmatter } from './Frontmatter';
+
+/**
+ * Runs the presentation pipeline on markdown files from disk, outside Obsidian. Paths in decks,
+ * reports and the `output:` frontmatter option are relative to the folder a note was found in,
+ * which plays the part of the vault root.
+ */
+
+export interface SourceNote {
+  file: string; // absolute path of the markdown file
+  root: string; // folder the note was found in; stands in for the vault root
+}
+
+export interface ConversionResult {
+  source: string; // root-relative, with `/` separators
+  deckPath: string; // absolute
+  reportPath?: string;
+  explainPath?: string;
+  slides: number;
+  issues: number; // quality issues above 'info'
+  warnings: string[]; // ignored frontmatter values
+}
+
+/** Everything the pipeline and the quality checks found about one deck, as written to JSON. */
+export interface ConversionReport {
+  source: string;
+  deck: string;
+  parameters: OrchestratorOutput['parameters'];
+  warnings: string[];
+  analysis: OrchestratorOutput['analysis'];
+  theme: { name: string; rationale: string };
+  slides: { section: string; layout: string; rationale: string; score: number }[];
+  metrics: OrchestratorOutput['metrics'];
+  fingerprint: OrchestratorOutput['fingerprint'];
+  quality: QualityReport;
+}
+
+/** Inputs shared by every conversion of a run. */
+export interface ConversionContext {
+  lexicons?: LexiconPack[];
+  corpus?: PhraseStats; // notes the key topics are scored against
+}
+
+const SKIPPED_FOLDERS = new Set(['node_modules']);
+
+/**
+ * Expands the command line inputs into the notes to convert. Folders are searched recursively,
+ * skipping hidden folders (such as `.obsidian`) and decks or reports written by earlier runs.
+ */
+export async function collectNotes(inputs: string[]): Promise<Result<SourceNote[], Error>> {
+  const notes: SourceNote[] = [];
+  for (const input of inputs) {
+    const absolute = path.resolve(input);
+    const stat = await fs.stat(absolute).catch(() => null);
+    if (!stat) return err(new Error(`No such file or folder: ${input}`));
+    if (stat.isDirectory()) {
+      const files = await markdownFiles(absolute);
+      notes.push(...files.map((file) => ({ file, root: absolute })));
+    } else if (/\.md$/i.test(absolute)) {
+      notes.push({ file: absolute, root: path.dirname(absolute) });
+    } else {
+      return err(new Error(`Not a markdown file: ${input}`));
+    }
+  }
+  const seen = new Set<string>();
+  return ok(notes.filter((note) => !seen.has(note.file) && Boolean(seen.add(note.file))));
+}
+
+async function markdownFiles(folder: string): Promise<string[]> {
+  const entries = await fs.readdir(folder, { withFileTypes: true });
+  entries.sort((a, b) => a.name.localeCompare(b.name));
+  const files: string[] = [];
+  for (const entry of entries) {
+    if (entry.name.startsWith('.')) continue;
+    const full = path.join(folder, entry.name);
+    if (entry.isDirectory() && !SKIPPED_FOLDERS.has(entry.name)) {
+      files.push(...(await markdownFiles(full)));
+    } else if (entry.isFile() && /\.md$/i.test(entry.name) && !isGeneratedNote(entry.name)) {
+      files.push(full);
+    }
+  }
+  return files;
+}
+
+export class DeckConverter {
+  constructor(
+    private readonly orchestrator: PresentationOrchestrator = new PresentationOrchestrator(),
+    private readonly qa: QualityAssuranceService = new QualityAssuranceService(),
+  ) {}
+
+  /**
+   * Converts one note: writes `<note> - Slides.md`, its JSON report and, in explain mode, the
+   * explain note. An earlier deck at the same path is passed to the pipeline, so slides edited
+   * there are kept for unchanged sections, as they are in the plugin.
+   */
+  async convert(
+    note: SourceNote,
+    options: CliOptions,
+    context: ConversionContext = {},
+  ): Promise<Result<ConversionResult, Error>> {
+    try {
+      const markdown = await fs.readFile(note.file, 'utf8');
+      const { overrides, warnings } = parseNoteOverrides(readFrontmatter(markdown));
+      const params = resolveGenerationParameters(options.parameters, overrides);
+      const files = conversionFiles(note, overrides.outputPath, options.outDir);
+      if (!files.ok) return files;
+      const { source, basename, deckPath } = files.value;
+
+      const generated = await this.orchestrator.generate({
+        ...pipelineInput(params, options, overrides),
+        rawMarkdown: markdown,
+        theme: overrides.theme ?? options.overrides.theme,
+        overrides: Object.keys(overrides),
+        title: basename,
+        lexicons: context.lexicons,
+        corpus: context.corpus,
+        previousDeck: await fs.readFile(deckPath, 'utf8').catch(() => undefined),
+      });
+      if (!generated.ok) return generated;
+      const output = generated.value;
+      const quality = this.qa.analyze(output.slides, {
+        languageHints: params.language !== 'auto' ? [params.language] : undefined,
+      });
+      if (!quality.ok) return quality;
+
+      await writeFile(deckPath, output.deck);
+      const result: ConversionResult = {
+        source,
+        deckPath,
+        slides: output.slides.length,
+        issues: quality.value.report.issues.filter((i) => i.severity !== 'info').length,
+        warnings,
+      };
+      if (options.report) {
+        result.reportPath = await writeReport(files.value, output, quality.value.report, warnings);
+      }
+      if (params.explain) result.explainPath = await writeExplain(files.value, output);
+      return ok(result);
+    } catch (e) {
+      return err(e instanceof Error ? e : new Error(String(e)));
+    }
+  }
+}
+
+/** Reads a lexicon pack file; packs it could not use are reported as warnings. */
+export async function readLexiconPacks(
+  file: string,
+): Promise<Result<{ packs: LexiconPack[]; warnings: string[] }, Error>> {
+  try {
+    return ok(parseLexiconPacks(JSON.parse(await fs.readFile(file, 'utf8'))));
+  } catch (e) {
+    return err(new Error(`Cannot read lexicon packs ${file}: ${(e as Error).message}`));
+  }
+}
+
+/** Indexes the markdown notes below `folder` as the keyphrase corpus. */
+export async function readCorpus(folder: string): Promise<Result<CorpusIndex, Error>> {
+  try {
+    const index = new CorpusIndex();
+    for (const file of await markdownFiles(path.resolve(folder))) {
+      const [text, stat] = await Promise.all([fs.readFile(file, 'utf8'), fs.stat(file)]);
+      index.add(file, stat.mtimeMs, text);
+    }
+    return ok(index);
+  } catch (e) {
+    return err(new Error(`Cannot read corpus folder ${folder}: ${(e as Error).message}`));
+  }
+}
+
+// Paths of one conversion: root-relative source and deck, absolute deck file
+interface ConversionFiles {
+  source: string;
+  basename: string;
+  deck: string;
+  deckPath: string;
+}
+
+/** The deck goes next to the note, or where its `output:` option says, below `outDir` if set. */
+function conversionFiles(
+  note: SourceNote,
+  outputPath: string | undefined,
+  outDir: string | undefined,
+): Result<ConversionFiles, Error> {
+  const source = toPosix(path.relative(note.root, note.file));
+  const basename = path.basename(note.file).replace(/\.md$/i, '');
+  const deckName = `${basename} - Slides.md`;
+  const deck = outputPath
+    ? resolveOutputPath(outputPath, deckName)
+    : resolveSiblingPath(source, deckName);
+  if (!deck.ok) return deck;
+  return ok({
+    source,
+    basename,
+    deck: deck.value.path,
+    deckPath: path.join(outDir ?? note.root, deck.value.path),
+  });
+}
+
+function pipelineInput(params: GenerationParameters, options: CliOptions, note: NoteOverrides) {
+  return {
+    maxSlides: params.maxSlides,
+    preferredTheme: params.theme,
+    layoutStrategy: params.layoutStrategy,
+    transition: params.transition,
+    language: params.language,
+    overflow: options.overflow,
+    sourceNotes: options.sourceNotes,
+    deck: { size: options.slideSize, controls: options.showControls },
+    structure: {
+      title: params.titleSlide,
+      agenda: params.agendaSlide,
+      closing: params.closingSlide,
+    },
+    seed: note.seed ?? options.overrides.seed,
+  };
+}
+
+async function writeReport(
+  files: ConversionFiles,
+  output: OrchestratorOutput,
+  quality: QualityReport,
+  warnings: string[],
+): Promise<string> {
+  const reportPath = files.deckPath.replace(/\.md$/i, '.report.json');
+  const report = conversionReport(files.source, files.deck, output, quality, warnings);
+  await writeFile(reportPath, `${JSON.stringify(report, null, 2)}\n`);
+  return reportPath;
+}
+
+async function writeExplain(files: ConversionFiles, output: OrchestratorOutput): Promise<string> {
+  const explainPath = files.deckPath.replace(/\.md$/i, ' - Explain.md');
+  const explain = renderExplainReport(output, { deckPath: files.deck, sourcePath: files.source });
+  await writeFile(explainPath, explain);
+  return explainPath;
+}
+
+export function conversionReport(
+  source: string,
+  deck: string,
+  output: OrchestratorOutput,
+  quality: QualityReport,
+  warnings: string[] = [],
+): ConversionReport {
+  return {
+    source,
+    deck,
+    parameters: output.parameters,
+    warnings,
+    analysis: output.analysis,
+    theme: { name: output.theme.name, rationale: output.theme.rationale },
+    slides: output.layoutDecisions.map((decision, i) => ({
+      section: output.segments[i] ? segmentLabel(output.segments[i]) : '',
+      layout: decision.type,
+      rationale: decision.rationale,
+      score: decision.score,
+    })),
+    metrics: output.metrics,
+    fingerprint: output.fingerprint,
+    quality,
+  };
+}
+
+async function writeFile(file: string, content: string): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, content, 'utf8');
+}
+
+function toPosix(relative: string): string {
+  return relative.split(path.sep).join('/');
+}
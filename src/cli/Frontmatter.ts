@@ -0,0 +1,51 @@
+/**
+ * Minimal frontmatter reader for the CLI, where Obsidian's metadata cache is not available.
+ * Supports what the `smart-slides:` block needs: `key: value` pairs, one level of nested
+ * mappings by indentation, and plain, quoted, numeric and boolean scalars. Anything else (lists,
+ * multi-line strings) is skipped.
+ */
+
+const FRONTMATTER_RE = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+const ENTRY_RE = /^(\s*)([^:#\s][^:]*?)\s*:(?:\s+(.*))?$/;
+
+export function readFrontmatter(markdown: string): Record<string, unknown> | undefined {
+  const match = FRONTMATTER_RE.exec(markdown);
+  if (!match) return undefined;
+  const root: Record<string, unknown> = {};
+  let block: Record<string, unknown> | null = null;
+  for (const line of match[1].split(/\r?\n/)) {
+    const entry = readEntry(line);
+    if (!entry) continue;
+    if (!entry.nested) {
+      // A key without a value opens a nested mapping
+      block = entry.value === '' ? {} : null;
+      root[entry.key] = block ?? scalar(entry.value);
+    } else if (block && entry.value !== '') {
+      block[entry.key] = scalar(entry.value);
+    }
+  }
+  return root;
+}
+
+function readEntry(line: string): { nested: boolean; key: string; value: string } | null {
+  if (/^\s*(#|$)/.test(line)) return null;
+  const entry = ENTRY_RE.exec(line);
+  if (!entry) return null;
+  const [, indent, key, value] = entry;
+  return { nested: indent.length > 0, key, value: value === undefined ? '' : stripComment(value) };
+}
+
+function stripComment(value: string): string {
+  if (/^["']/.test(value)) return value.trim();
+  const hash = value.search(/\s#/);
+  return (hash >= 0 ? value.slice(0, hash) : value).trim();
+}
+
+function scalar(value: string): unknown {
+  const quoted = /^(["'])(.*)\1$/.exec(value);
+  if (quoted) return quoted[2];
+  if (/^(true|false)$/i.test(value)) return value.toLowerCase() === 'true';
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+  if (/^(null|~)$/i.test(value)) return null;
+  return value;
+}
@@ -0,0 +1,56 @@
+import { CLI_DEFAULTS, parseCliArgs } from '../CliArguments';
+
+describe('parseCliArgs', () => {
+  test('reads inputs, parameters and converter flags', () => {
+    const parsed = parseCliArgs([
+      'notes',
+      '--theme=technical',
+      '--max-slides',
+      '12',
+      '--agenda',
+      '--size',
+      '4:3',
+      '-o',
+      'out',
+      'intro.md',
+      '--quiet',
+      '--seed=7',
+      '--lexicons',
+      'packs.json',
+      '--corpus=vault',
+    ]);
+    if (!parsed.ok || parsed.value.kind !== 'convert') throw new Error('expected options');
+    const options = parsed.value.options;
+    expect(options.inputs).toEqual(['notes', 'intro.md']);
+    expect(options.outDir).toBe('out');
+    expect(options.lexicons).toBe('packs.json');
+    expect(options.corpus).toBe('vault');
+    expect(options.slideSize).toBe('4:3');
+    expect(options.quiet).toBe(true);
+    expect(options.overrides).toEqual({
+      theme: 'technical',
+      maxSlides: 12,
+      agendaSlide: true,
+      seed: 7,
+    });
+    expect(options.parameters).toEqual({
+      ...CLI_DEFAULTS,
+      theme: 'technical',
+      maxSlides: 12,
+      agendaSlide: true,
+    });
+  });
+
+  test('rejects unknown options, missing values and invalid parameters', () => {
+    const message = (argv: string[]) => {
+      const parsed = parseCliArgs(argv);
+      return parsed.ok ? '' : parsed.error.message;
+    };
+    expect(message(['--bogus', 'a.md'])).toMatch(/Unknown option --bogus/);
+    expect(message(['a.md', '--out'])).toMatch(/--out needs a value/);
+    expect(message(['a.md', '--theme', 'neon'])).toMatch(/invalid theme/);
+    expect(message(['a.md', '--size', '21:9'])).toMatch(/Invalid value for --size/);
+    expect(message(['--agenda'])).toMatch(/No input/);
+    expect(parseCliArgs(['a.md', '--help'])).toEqual({ ok: true, value: { kind: 'help' } });
+  });
+});
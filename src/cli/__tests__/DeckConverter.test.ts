@@ -0,0 +1,83 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { collectNotes } from '../DeckConverter';
+import { main } from '../index';
+
+const LESSON = [
+  '---',
+  'smart-slides:',
+  '  max-slides: 8',
+  '  output: decks/',
+  '---',
+  '## Goals',
+  '',
+  '- Learn the basics',
+  '- Practice with examples',
+  '',
+  '## Plan',
+  '',
+  'Week one covers the basics. Week two covers practice.',
+].join('\n');
+
+describe('headless conversion', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'smart-slides-'));
+    await fs.mkdir(path.join(dir, 'course', 'week1'), { recursive: true });
+    await fs.mkdir(path.join(dir, 'course', '.obsidian'));
+    await fs.writeFile(path.join(dir, 'course', 'week1', 'Lesson.md'), LESSON);
+    await fs.writeFile(path.join(dir, 'course', 'Intro.md'), '# Intro\n\nWelcome to the course.');
+    await fs.writeFile(path.join(dir, 'course', 'Intro - Slides.md'), 'old deck');
+    await fs.writeFile(path.join(dir, 'course', '.obsidian', 'Hidden.md'), '# Hidden');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('collectNotes searches folders, skipping hidden folders and generated decks', async () => {
+    const notes = await collectNotes([path.join(dir, 'course')]);
+    if (!notes.ok) throw notes.error;
+    expect(notes.value.map((n) => path.relative(dir, n.file))).toEqual([
+      path.join('course', 'Intro.md'),
+      path.join('course', 'week1', 'Lesson.md'),
+    ]);
+    const missing = await collectNotes([path.join(dir, 'nope')]);
+    expect(missing.ok).toBe(false);
+  });
+
+  test('main writes decks and JSON reports, honouring note frontmatter', async () => {
+    const lines: string[] = [];
+    const io = { out: (l: string) => lines.push(l), error: (l: string) => lines.push(l) };
+    const out = path.join(dir, 'out');
+    const code = await main([path.join(dir, 'course'), '--out', out, '--closing'], io);
+    expect(code).toBe(0);
+    expect(lines[lines.length - 1]).toBe('2 of 2 notes converted.');
+
+    const deck = await fs.readFile(path.join(out, 'decks', 'Lesson - Slides.md'), 'utf8');
+    expect(deck.startsWith('---\ntheme:')).toBe(true);
+    expect(deck).toContain('## Goals');
+    expect(deck).toContain('Questions?');
+    const report = JSON.parse(
+      await fs.readFile(path.join(out, 'decks', 'Lesson - Slides.report.json'), 'utf8'),
+    );
+    expect(report.source).toBe('week1/Lesson.md');
+    expect(report.deck).toBe('decks/Lesson - Slides.md');
+    expect(report.parameters.maxSlides).toBe(8);
+    expect(report.metrics.overrides).toEqual(['maxSlides', 'outputPath']);
+    expect(report.slides.map((s: { section: string }) => s.section)).toEqual(['Goals', 'Plan']);
+    expect(report.quality.metrics.totalSlides).toBeGreaterThan(0);
+    await expect(fs.stat(path.join(out, 'Intro - Slides.md'))).resolves.toBeDefined();
+  });
+
+  test('main reports usage errors and failed notes through the exit code', async () => {
+    const lines: string[] = [];
+    const io = { out: (l: string) => lines.push(l), error: (l: string) => lines.push(l) };
+    expect(await main(['--max-slides'], io)).toBe(2);
+    await fs.writeFile(path.join(dir, 'Bad.md'), '---\nsmart-slides:\n  output: ../x\n---\n# Bad');
+    expect(await main([path.join(dir, 'Bad.md'), '-q'], io)).toBe(1);
+    expect(lines[lines.length - 1]).toMatch(/Bad\.md: .*traversal/);
+  });
+});
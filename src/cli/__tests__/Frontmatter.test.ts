@@ -0,0 +1,29 @@
+import { readFrontmatter } from '../Frontmatter';
+
+describe('readFrontmatter', () => {
+  test('reads scalars and one level of nested mappings', () => {
+    const markdown = [
+      '---',
+      'title: "Weekly: review"',
+      'draft: false',
+      'smart-slides:',
+      '  max-slides: 12 # keep it short',
+      "  theme: 'academic'",
+      '  agenda: yes',
+      'tags:',
+      '  - talk',
+      '---',
+      '# Body',
+    ].join('\n');
+    expect(readFrontmatter(markdown)).toEqual({
+      title: 'Weekly: review',
+      draft: false,
+      'smart-slides': { 'max-slides': 12, theme: 'academic', agenda: 'yes' },
+      tags: {},
+    });
+  });
+
+  test('returns undefined without a frontmatter block', () => {
+    expect(readFrontmatter('# Title\n\n---\n\ntext')).toBeUndefined();
+  });
+});
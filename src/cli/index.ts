@@ -0,0 +1,123 @@
+import * as path from 'path';
+import { PresentationOrchestrator } from '../services/PresentationOrchestrator';
+import type { LexiconPack } from '../services/LexiconPacks';
+import type { CorpusIndex } from '../services/CorpusIndex';
+import { Logger } from '../utils/Logger';
+import { CliOptions, USAGE, parseCliArgs } from './CliArguments';
+import {
+  ConversionContext,
+  DeckConverter,
+  collectNotes,
+  readCorpus,
+  readLexiconPacks,
+} from './DeckConverter';
+
+/**
+ * Headless entry point: `smart-slides [options] <file.md | folder>...`. Exits with 0 when every
+ * note was converted, 1 when any of them failed and 2 on invalid arguments.
+ */
+
+export interface CliOutput {
+  out(line: string): void;
+  error(line: string): void;
+}
+
+const processOutput: CliOutput = {
+  out: (line) => process.stdout.write(`${line}\n`),
+  error: (line) => process.stderr.write(`${line}\n`),
+};
+
+export async function main(argv: string[], io: CliOutput = processOutput): Promise<number> {
+  const command = parseCliArgs(argv);
+  if (!command.ok) {
+    io.error(`smart-slides: ${command.error.message}`);
+    io.error('Run with --help for usage.');
+    return 2;
+  }
+  if (command.value.kind === 'help') {
+    io.out(USAGE);
+    return 0;
+  }
+  const options = command.value.options;
+  const notes = await collectNotes(options.inputs);
+  if (!notes.ok) {
+    io.error(`smart-slides: ${notes.error.message}`);
+    return 2;
+  }
+  const context = await loadContext(options, io);
+  if (!context) return 2;
+  const logger = new Logger('smart-slides', { level: options.quiet ? 'error' : 'warn' });
+  // One orchestrator for the whole batch, so repeated sections are composed once
+  const converter = new DeckConverter(new PresentationOrchestrator({ logger }));
+  const say = (line: string) => {
+    if (!options.quiet) io.out(line);
+  };
+
+  let failed = 0;
+  for (const note of notes.value) {
+    const label = displayPath(note.file);
+    const result = await converter.convert(note, options, context);
+    if (!result.ok) {
+      failed += 1;
+      io.error(`✗ ${label}: ${result.error.message}`);
+      continue;
+    }
+    const { slides, issues, warnings, deckPath } = result.value;
+    warnings.forEach((warning) => io.error(`! ${label}: ${warning}`));
+    say(
+      `✓ ${label} → ${displayPath(deckPath)} ` +
+        `(${slides} slides${issues > 0 ? `, ${issues} quality issues` : ''})`,
+    );
+  }
+  say(`${notes.value.length - failed} of ${notes.value.length} notes converted.`);
+  return failed > 0 ? 1 : 0;
+}
+
+// Lexicon packs and corpus shared by every note; null when a file cannot be read
+async function loadContext(options: CliOptions, io: CliOutput): Promise<ConversionContext | null> {
+  const lexicons = await loadLexicons(options.lexicons, io);
+  const corpus = await loadCorpus(options.corpus, io);
+  return lexicons && corpus !== null ? { lexicons, corpus } : null;
+}
+
+// Packs of the --lexicons file, none without it; null when the file cannot be read
+async function loadLexicons(
+  file: string | undefined,
+  io: CliOutput,
+): Promise<LexiconPack[] | null> {
+  if (!file) return [];
+  const read = await readLexiconPacks(file);
+  if (!read.ok) {
+    io.error(`smart-slides: ${read.error.message}`);
+    return null;
+  }
+  read.value.warnings.forEach((warning) => io.error(`! ${file}: ${warning}`));
+  return read.value.packs;
+}
+
+// Index of the --corpus folder, none without it; null when the folder cannot be read
+async function loadCorpus(
+  folder: string | undefined,
+  io: CliOutput,
+): Promise<CorpusIndex | undefined | null> {
+  if (!folder) return undefined;
+  const read = await readCorpus(folder);
+  if (!read.ok) io.error(`smart-slides: ${read.error.message}`);
+  return read.ok ? read.value : null;
+}
+
+// Relative to the working directory when below it
+function displayPath(file: string): string {
+  const relative = path.relative(process.cwd(), file);
+  return relative && !relative.startsWith('..') ? relative : file;
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then(
+    (code) => (process.exitCode = code),
+    (e) => {
+      process.stderr.write(`smart-slides: ${e instanceof Error ? e.message : String(e)}\n`);
+      process.exitCode = 1;
+    },
+  );
+}
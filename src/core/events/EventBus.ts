@@ -13,6 +13,8 @@ export interface EventBusOptions {
   onError?: (params: { error: unknown; eventType: string }) => void;
   /** Optional sanitizer applied to each published event before dispatch. */
   sanitizeEvent?: <E extends DomainEvent>(event: E) => E;
+  /** Optional projection kept in the history instead of the event, e.g. counts and ids only. */
+  summarizeForHistory?: (event: DomainEvent) => DomainEvent;
 }
 
 export interface EventBusErrorEntry {
@@ -29,12 +31,14 @@ export class EventBus<TEvents extends Record<string, unknown> = Record<string, u
   private readonly errorCapacity: number;
   private readonly onError?: (params: { error: unknown; eventType: string }) => void;
   private readonly sanitize?: <E extends DomainEvent>(event: E) => E;
+  private readonly summarize?: (event: DomainEvent) => DomainEvent;
 
   constructor(options?: EventBusOptions) {
     this.historyCapacity = Math.max(0, options?.historyCapacity ?? 200);
     this.errorCapacity = Math.max(0, options?.errorCapacity ?? 100);
     this.onError = options?.onError;
     this.sanitize = options?.sanitizeEvent as any;
+    this.summarize = options?.summarizeForHistory;
   }
 
   subscribe<TType extends keyof TEvents & string, TPayload extends TEvents[TType]>(
@@ -73,7 +77,15 @@ export class EventBus<TEvents extends Record<string, unknown> = Record<string, u
     }
     // Track history (bounded)
     if (this.historyCapacity > 0) {
-      this.eventHistory.push(safeEvent as DomainEvent<keyof TEvents & string, unknown>);
+      let entry: DomainEvent = safeEvent;
+      if (this.summarize) {
+        try {
+          entry = this.summarize(safeEvent);
+        } catch (error) {
+          this.recordHandlerError(String(event.type), error);
+        }
+      }
+      this.eventHistory.push(entry as DomainEvent<keyof TEvents & string, unknown>);
       if (this.eventHistory.length > this.historyCapacity) {
         this.eventHistory.shift();
       }
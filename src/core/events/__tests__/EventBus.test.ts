@@ -175,6 +175,17 @@ describe('EventBus', () => {
     expect((bus.getHistory()[0] as any).data.value).toBe(6);
   });
 
+  test('summarizeForHistory keeps a projection in the history, handlers get the event', async () => {
+    const seen: string[] = [];
+    const bus = new EventBus<TestEvents>({
+      summarizeForHistory: (e) => ({ ...e, data: { length: (e.data as any).text.length } }),
+    });
+    bus.subscribe('Bar', (e) => void seen.push(e.data.text));
+    await bus.publishTyped('Bar', { text: 'full payload' });
+    expect(seen).toEqual(['full payload']);
+    expect(bus.getHistory()[0].data).toEqual({ length: 12 });
+  });
+
   test('sanitizeEvent throwing is captured and does not block dispatch', async () => {
     const calls: string[] = [];
     const bus = new EventBus<TestEvents>({
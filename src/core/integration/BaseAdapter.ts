@@ -45,13 +45,22 @@ export abstract class BaseAdapter {
     this.context = context;
   }
 
+  /** Id, name and version of the wrapped plugin, e.g. for a generation fingerprint. */
+  get info(): PluginInfo {
+    return { ...this.pluginInfo };
+  }
+
   abstract isAvailable(): Promise<boolean>;
   abstract getVersion(): Promise<string>;
   abstract getName(): Promise<string>;
 
-  // Graceful degradation hook
-  async withResilience<T>(operation: () => Promise<T>): Promise<T> {
-    const exec = async () => await operation();
+  // Graceful degradation hook; an aborted `signal` rejects with AdapterError code 'ABORTED'
+  async withResilience<T>(operation: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    this.throwIfAborted(signal);
+    const exec = async () => {
+      this.throwIfAborted(signal);
+      return await operation();
+    };
     const wrapped = this.context.circuitBreaker
       ? () => this.context.circuitBreaker!.exec(exec)
       : exec;
@@ -59,7 +68,32 @@ export abstract class BaseAdapter {
     const maybeLimited = this.context.rateLimiter
       ? () => this.context.rateLimiter!.schedule(maybeRetry)
       : maybeRetry;
-    return maybeLimited();
+    return signal ? this.raceAbort(maybeLimited, signal) : maybeLimited();
+  }
+
+  protected throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      throw new AdapterError('Operation aborted', 'ABORTED', this.pluginInfo.id);
+    }
+  }
+
+  // Listens before starting `run` so an abort raised while it starts is not missed
+  private raceAbort<T>(run: () => Promise<T>, signal: AbortSignal): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () =>
+        reject(new AdapterError('Operation aborted', 'ABORTED', this.pluginInfo.id));
+      signal.addEventListener('abort', onAbort, { once: true });
+      run().then(
+        (value) => {
+          signal.removeEventListener('abort', onAbort);
+          resolve(value);
+        },
+        (error) => {
+          signal.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+      );
+    });
   }
 
   // Compatibility check (semantic version awareness can be added later)
@@ -4,6 +4,7 @@ import { sanitizePlainText } from '../../security/InputValidator';
 export interface ImageGenOptions {
   size?: { width: number; height: number };
   style?: string;
+  seed?: number; // the same seed and prompt reproduce an image on backends that support it
 }
 
 export interface ImageAttribution {
@@ -23,7 +24,11 @@ export interface GeneratedImage {
 }
 
 export interface ImageGeneratorApi {
-  generateImage(prompt: string, options?: ImageGenOptions): Promise<GeneratedImage>;
+  generateImage(
+    prompt: string,
+    options?: ImageGenOptions,
+    signal?: AbortSignal,
+  ): Promise<GeneratedImage>;
 }
 
 export class ImageGeneratorAdapter extends BaseAdapter {
@@ -58,13 +63,17 @@ export class ImageGeneratorAdapter extends BaseAdapter {
     return this.pluginInfo.name;
   }
 
-  async generateBasic(prompt: string, options?: ImageGenOptions): Promise<GeneratedImage> {
+  async generateBasic(
+    prompt: string,
+    options?: ImageGenOptions,
+    signal?: AbortSignal,
+  ): Promise<GeneratedImage> {
     if (!prompt || prompt.trim().length < 3) {
       throw new AdapterError('Prompt too short', 'INVALID_PROMPT', this.pluginInfo.id);
     }
     const clean = this.cleanPrompt(prompt);
-    const op = () => this.api.generateImage(clean, this.normalizeOptions(options));
-    const img = await this.withResilience(op);
+    const op = () => this.api.generateImage(clean, this.normalizeOptions(options), signal);
+    const img = await this.withResilience(op, signal);
     return this.validateImage(img, clean);
   }
 
@@ -94,9 +103,10 @@ export class ImageGeneratorAdapter extends BaseAdapter {
   async generateForSlide(
     context: SlideImageContext,
     options?: ImageGenOptions,
+    signal?: AbortSignal,
   ): Promise<GeneratedImage> {
     const prompt = this.prompts.slide(context);
-    return this.generateWithQualityAndFallback(prompt, options);
+    return this.generateWithQualityAndFallback(prompt, options, 1, signal);
   }
 
   // 4.3.3, 4.3.8: Batch with progress tracking
@@ -104,12 +114,14 @@ export class ImageGeneratorAdapter extends BaseAdapter {
     contexts: SlideImageContext[],
     options: ImageGenOptions = {},
     onProgress?: (current: number, total: number) => void,
+    signal?: AbortSignal,
   ): Promise<GeneratedImage[]> {
     const total = contexts.length;
     const results: GeneratedImage[] = [];
     let index = 0;
     for (const ctx of contexts) {
-      const img = await this.generateForSlide(ctx, options);
+      this.throwIfAborted(signal);
+      const img = await this.generateForSlide(ctx, options, signal);
       results.push(img);
       index += 1;
       if (onProgress) onProgress(index, total);
@@ -122,12 +134,14 @@ export class ImageGeneratorAdapter extends BaseAdapter {
     prompt: string,
     options?: ImageGenOptions,
     attempt: number = 1,
+    signal?: AbortSignal,
   ): Promise<GeneratedImage> {
     const normalizedOptions = this.normalizeOptions(options);
     const enforcedPrompt = this.enforceStyleConsistency(prompt, normalizedOptions);
     try {
-      const img = await this.withResilience(() =>
-        this.api.generateImage(enforcedPrompt, normalizedOptions),
+      const img = await this.withResilience(
+        () => this.api.generateImage(enforcedPrompt, normalizedOptions, signal),
+        signal,
       );
       const validated = this.validateImage(img, enforcedPrompt);
       const meetsQuality = this.meetsQuality(validated, normalizedOptions);
@@ -136,13 +150,20 @@ export class ImageGeneratorAdapter extends BaseAdapter {
           ...normalizedOptions,
           size: normalizedOptions.size ?? { width: 1280, height: 720 },
         };
-        return this.generateWithQualityAndFallback(enforcedPrompt, upgraded, attempt + 1);
+        return this.generateWithQualityAndFallback(enforcedPrompt, upgraded, attempt + 1, signal);
       }
       return validated;
     } catch (e: any) {
+      // cancellation is final: never retry with a fallback prompt
+      if (e instanceof AdapterError && e.code === 'ABORTED') throw e;
       if (attempt === 1) {
         const fallbackPrompt = this.prompts.fallback(enforcedPrompt);
-        return this.generateWithQualityAndFallback(fallbackPrompt, normalizedOptions, attempt + 1);
+        return this.generateWithQualityAndFallback(
+          fallbackPrompt,
+          normalizedOptions,
+          attempt + 1,
+          signal,
+        );
       }
       throw this.mapApiError(e);
     }
@@ -5,6 +5,7 @@ export interface PromptTemplates {
   title: (topic: string) => string;
   outline: (topic: string) => string;
   slide: (topic: string, keyPoint: string) => string;
+  summary: (text: string, maxBullets: number) => string;
 }
 
 export const DefaultPromptTemplates: PromptTemplates = {
@@ -12,10 +13,13 @@ export const DefaultPromptTemplates: PromptTemplates = {
   outline: (topic) => `List 5-7 key bullet points for a presentation about: ${topic}`,
   slide: (topic, key) =>
     `Expand the point "${key}" into 3 concise bullet points for a presentation about ${topic}.`,
+  summary: (text, max) =>
+    `Summarize the following notes as at most ${max} concise bullet points for one slide:\n\n${text}`,
 };
 
 export interface TextGeneratorApi {
-  generate(prompt: string): Promise<string>;
+  // `seed` asks the model for repeatable output; backends without seeding ignore it
+  generate(prompt: string, options?: { signal?: AbortSignal; seed?: number }): Promise<string>;
 }
 
 export class TextGeneratorAdapter extends BaseAdapter {
@@ -50,15 +54,21 @@ export class TextGeneratorAdapter extends BaseAdapter {
     return this.pluginInfo.name;
   }
 
-  async generateTitle(topic: string): Promise<string> {
+  async generateTitle(topic: string, signal?: AbortSignal, seed?: number): Promise<string> {
     const prompt = this.prompts.title(topic);
-    const text = await this.withResilience(() => this.api.generate(prompt));
+    const text = await this.withResilience(
+      () => this.api.generate(prompt, { signal, seed }),
+      signal,
+    );
     return this.sanitizeText(text).trim();
   }
 
-  async generateOutline(topic: string): Promise<string[]> {
+  async generateOutline(topic: string, signal?: AbortSignal, seed?: number): Promise<string[]> {
     const prompt = this.prompts.outline(topic);
-    const text = await this.withResilience(() => this.api.generate(prompt));
+    const text = await this.withResilience(
+      () => this.api.generate(prompt, { signal, seed }),
+      signal,
+    );
     const lines = this.sanitizeText(text)
       .split(/\r?\n/)
       .map((l) => l.replace(/^[-*]\s*/, '').trim())
@@ -68,9 +78,17 @@ export class TextGeneratorAdapter extends BaseAdapter {
     return lines.slice(0, 7);
   }
 
-  async generateSlide(topic: string, keyPoint: string): Promise<string[]> {
+  async generateSlide(
+    topic: string,
+    keyPoint: string,
+    signal?: AbortSignal,
+    seed?: number,
+  ): Promise<string[]> {
     const prompt = this.prompts.slide(topic, keyPoint);
-    const text = await this.withResilience(() => this.api.generate(prompt));
+    const text = await this.withResilience(
+      () => this.api.generate(prompt, { signal, seed }),
+      signal,
+    );
     const bullets = this.sanitizeText(text)
       .split(/\r?\n/)
       .map((l) => l.replace(/^[-*]\s*/, '').trim())
@@ -80,6 +98,26 @@ export class TextGeneratorAdapter extends BaseAdapter {
     return bullets.slice(0, 5);
   }
 
+  async summarize(
+    text: string,
+    maxBullets = 5,
+    signal?: AbortSignal,
+    seed?: number,
+  ): Promise<string[]> {
+    const prompt = this.prompts.summary(text, maxBullets);
+    const response = await this.withResilience(
+      () => this.api.generate(prompt, { signal, seed }),
+      signal,
+    );
+    const bullets = this.sanitizeText(response)
+      .split(/\r?\n/)
+      .map((l) => l.replace(/^[-*]\s*/, '').trim())
+      .filter(Boolean);
+    if (bullets.length === 0)
+      throw new AdapterError('Invalid summary response', 'INVALID_RESPONSE', this.pluginInfo.id);
+    return bullets.slice(0, maxBullets);
+  }
+
   private sanitizeText(text: string): string {
     return sanitizePlainText(text).replace(/<[^>]+>/g, '');
   }
@@ -36,6 +36,23 @@ describe('BaseAdapter - 4.1.1', () => {
     expect(called).toBe(1);
   });
 
+  test('withResilience rejects with ABORTED when the signal fires', async () => {
+    const adapter = new TestAdapter(plugin, {});
+    const controller = new AbortController();
+    const pending = adapter.withResilience(
+      () => new Promise<string>(() => undefined),
+      controller.signal,
+    );
+    controller.abort();
+    await expect(pending).rejects.toMatchObject({ code: 'ABORTED' });
+
+    let called = 0;
+    await expect(
+      adapter.withResilience(async () => (called += 1), controller.signal),
+    ).rejects.toMatchObject({ code: 'ABORTED' });
+    expect(called).toBe(0);
+  });
+
   test('version compatibility check via regex', async () => {
     const adapter = new TestAdapter(plugin, {});
     expect(await adapter.isVersionCompatible(/^1\./)).toBe(true);
@@ -143,6 +143,23 @@ describe('ImageGeneratorAdapter - 4.3.3–4.3.8 batch, quality, fallback, error
     expect(img.width).toBeGreaterThan(0);
   });
 
+  test('aborted generation does not fall back', async () => {
+    let calls = 0;
+    const controller = new AbortController();
+    const api: ImageGeneratorApi = {
+      async generateImage() {
+        calls += 1;
+        controller.abort();
+        return new Promise(() => undefined);
+      },
+    };
+    const adapter = new ImageGeneratorAdapter(plugin, api, ctxCfg);
+    await expect(
+      adapter.generateForSlide({ topic: 'Cancelled' }, undefined, controller.signal),
+    ).rejects.toMatchObject({ code: 'ABORTED' });
+    expect(calls).toBe(1);
+  });
+
   test('error mapping: rate limit', async () => {
     const api: ImageGeneratorApi = {
       async generateImage() {
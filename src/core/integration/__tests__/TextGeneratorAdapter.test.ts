@@ -43,6 +43,25 @@ describe('TextGeneratorAdapter - 4.2', () => {
     expect(bullets.length).toBeLessThanOrEqual(5);
   });
 
+  test('summarize caps the bullets and rejects empty responses', async () => {
+    const summaryApi = {
+      async generate(prompt: string): Promise<string> {
+        return prompt.includes('empty notes') ? '  \n' : '- One\n- Two\n- Three\n- Four';
+      },
+    };
+    const adapter = new TextGeneratorAdapter(plugin, summaryApi, ctx);
+    await expect(adapter.summarize('long notes', 3)).resolves.toEqual(['One', 'Two', 'Three']);
+    await expect(adapter.summarize('empty notes')).rejects.toBeTruthy();
+  });
+
+  test('forwards the seed to the text generator', async () => {
+    const generate = jest.fn(async () => '- One\n- Two');
+    const adapter = new TextGeneratorAdapter(plugin, { generate }, ctx);
+    await adapter.summarize('notes', 5, undefined, 99);
+    expect(generate).toHaveBeenCalledWith(expect.any(String), { signal: undefined, seed: 99 });
+    expect(adapter.info).toEqual(plugin);
+  });
+
   test('outline validation fails on too few lines', async () => {
     const badApi = {
       async generate(prompt: string): Promise<string> {
@@ -1,16 +1,62 @@
-import { App, Notice, Plugin, PluginSettingTab, Setting } from 'obsidian';
+import { App, Editor, Notice, Plugin, PluginSettingTab, Setting, TFile, TFolder } from 'obsidian';
 import { ProgressController } from './ui/ProgressController';
 import { ProgressModal } from './ui/ProgressModal';
+import { GenerationRunner } from './ui/GenerationRunner';
+import { askForPrompt } from './ui/PromptModal';
+import { chooseFolder, chooseTag, notesInFolder, notesWithTag } from './ui/BatchSources';
 import { isOk } from './types/Result';
 import { CircuitBreaker } from './utils/CircuitBreaker';
 import { withRetry } from './utils/Retry';
 import { Logger } from './utils/Logger';
+import { findSectionAt, findTextEnd, relocateSection } from './services/MarkdownSections';
+import { hashString } from './utils/Hash';
+import {
+  GenerationCancelledError,
+  PresentationEventMap,
+  summarizePresentationEvent,
+} from './services/PresentationOrchestrator';
+import { EventBus } from './core/events/EventBus';
+import { OverflowMode } from './services/SlideComposer';
+import { SLIDE_SIZES, SlideSize } from './services/DeckAssembler';
+import {
+  DEFAULT_BATCH_CONCURRENCY,
+  MAX_BATCH_CONCURRENCY,
+  coerceConcurrency,
+} from './services/BatchGeneration';
+import {
+  LAYOUT_STRATEGIES,
+  LayoutStrategy,
+  OVERFLOW_MODES,
+  SLIDE_TRANSITIONS,
+  SlideTransition,
+  THEME_CHOICES,
+  ThemeChoice,
+  coerceChoice,
+  coerceLanguage,
+  coerceMaxSlides,
+} from './services/GenerationSettings';
 
 export interface SmartSlidesSettings {
   lastUsedAt: number;
   enableAnimations: boolean;
-  defaultTheme: 'business' | 'technical' | 'academic' | 'creative';
+  defaultTheme: ThemeChoice;
   maxSlides: number; // 5..200
+  layoutStrategy: LayoutStrategy;
+  transition: SlideTransition;
+  language: string; // 'auto' or a language tag such as 'en'
+  overflowMode: OverflowMode; // content past the slide line limit: speaker notes or extra slides
+  sourceInNotes: boolean;
+  condenseMerged: boolean; // summarize sections merged to fit maxSlides (Text Generator)
+  slideSize: SlideSize; // written to the deck frontmatter
+  showControls: boolean;
+  titleSlide: boolean;
+  agendaSlide: boolean;
+  closingSlide: boolean;
+  explain: boolean; // write a report note next to each deck
+  batchConcurrency: number; // notes generated at the same time by folder and tag runs
+  lexiconPacksPath: string; // vault path of a lexicon pack JSON file, '' for none
+  keyphraseCorpus: boolean; // score key topics against the other notes of the vault
+  corpusFolder: string; // only notes below this folder form the corpus, '' for the whole vault
   safeMode: boolean;
   // UX & Onboarding
   hasCompletedOnboarding: boolean;
@@ -22,6 +68,22 @@ const DEFAULT_SETTINGS: SmartSlidesSettings = {
   enableAnimations: true,
   defaultTheme: 'business',
   maxSlides: 40,
+  layoutStrategy: 'auto',
+  transition: 'none',
+  language: 'auto',
+  overflowMode: 'notes',
+  sourceInNotes: false,
+  condenseMerged: false,
+  slideSize: '16:9',
+  showControls: true,
+  titleSlide: false,
+  agendaSlide: false,
+  closingSlide: false,
+  explain: false,
+  batchConcurrency: DEFAULT_BATCH_CONCURRENCY,
+  lexiconPacksPath: '',
+  keyphraseCorpus: true,
+  corpusFolder: '',
   safeMode: true,
   hasCompletedOnboarding: false,
   onboardingVersion: 1,
@@ -29,9 +91,14 @@ const DEFAULT_SETTINGS: SmartSlidesSettings = {
 
 export default class SmartSlidesPlugin extends Plugin {
   public settings: SmartSlidesSettings = DEFAULT_SETTINGS;
+  /** Generation lifecycle events (see DomainEvents); other plugins may subscribe here. */
+  public readonly events = new EventBus<PresentationEventMap>({
+    summarizeForHistory: summarizePresentationEvent,
+  });
   private ribbonEl: HTMLElement | null = null;
   private breaker = new CircuitBreaker();
   private log = new Logger('SmartSlides');
+  private runner: GenerationRunner | null = null;
   private static readonly ONBOARDING_VERSION = 1;
 
   async onload() {
@@ -42,6 +109,14 @@ export default class SmartSlidesPlugin extends Plugin {
 
     await this.maybeShowOnboarding();
 
+    this.runner = new GenerationRunner(
+      this.app,
+      this.log,
+      this.events,
+      this.manifest.dir ? `${this.manifest.dir}/corpus-index.json` : undefined,
+    );
+    this.registerGenerationCommands();
+
     this.addCommand({
       id: 'smart-slides-generate-sample',
       name: 'Generate sample presentation (validate input)',
@@ -126,7 +201,9 @@ export default class SmartSlidesPlugin extends Plugin {
   public validateAndCoerceSettings(s: SmartSlidesSettings): SmartSlidesSettings {
     const coerced: SmartSlidesSettings = { ...s };
     this.coerceCoreFields(coerced);
+    this.coerceAnalysisFields(coerced);
     this.coerceThemeFields(coerced);
+    this.coerceDeckFields(coerced);
     this.coerceOnboardingFields(coerced);
     return coerced;
   }
@@ -135,21 +212,48 @@ export default class SmartSlidesPlugin extends Plugin {
     if (typeof settings.lastUsedAt !== 'number' || settings.lastUsedAt < 0) settings.lastUsedAt = 0;
     if (typeof settings.enableAnimations !== 'boolean')
       settings.enableAnimations = DEFAULT_SETTINGS.enableAnimations;
-    if (typeof settings.maxSlides !== 'number' || !Number.isFinite(settings.maxSlides))
-      settings.maxSlides = DEFAULT_SETTINGS.maxSlides;
-    settings.maxSlides = Math.min(200, Math.max(5, Math.round(settings.maxSlides)));
+    settings.maxSlides = coerceMaxSlides(settings.maxSlides, DEFAULT_SETTINGS.maxSlides);
     if (typeof settings.safeMode !== 'boolean') settings.safeMode = DEFAULT_SETTINGS.safeMode;
+    settings.overflowMode = coerceChoice(
+      settings.overflowMode,
+      OVERFLOW_MODES,
+      DEFAULT_SETTINGS.overflowMode,
+    );
+    if (typeof settings.sourceInNotes !== 'boolean')
+      settings.sourceInNotes = DEFAULT_SETTINGS.sourceInNotes;
+    if (typeof settings.condenseMerged !== 'boolean')
+      settings.condenseMerged = DEFAULT_SETTINGS.condenseMerged;
+    if (typeof settings.explain !== 'boolean') settings.explain = DEFAULT_SETTINGS.explain;
+    settings.batchConcurrency = coerceConcurrency(settings.batchConcurrency);
+  }
+
+  private coerceAnalysisFields(settings: SmartSlidesSettings): void {
+    if (typeof settings.lexiconPacksPath !== 'string')
+      settings.lexiconPacksPath = DEFAULT_SETTINGS.lexiconPacksPath;
+    if (typeof settings.keyphraseCorpus !== 'boolean')
+      settings.keyphraseCorpus = DEFAULT_SETTINGS.keyphraseCorpus;
+    if (typeof settings.corpusFolder !== 'string')
+      settings.corpusFolder = DEFAULT_SETTINGS.corpusFolder;
+  }
+
+  private coerceDeckFields(settings: SmartSlidesSettings): void {
+    settings.slideSize = coerceChoice(settings.slideSize, SLIDE_SIZES, DEFAULT_SETTINGS.slideSize);
+    const flags = ['showControls', 'titleSlide', 'agendaSlide', 'closingSlide'] as const;
+    for (const flag of flags) {
+      if (typeof settings[flag] !== 'boolean') settings[flag] = DEFAULT_SETTINGS[flag];
+    }
   }
 
   private coerceThemeFields(settings: SmartSlidesSettings): void {
-    const allowedThemes: Array<SmartSlidesSettings['defaultTheme']> = [
-      'business',
-      'technical',
-      'academic',
-      'creative',
-    ];
-    const themeIsAllowed = allowedThemes.includes(settings.defaultTheme);
-    if (!themeIsAllowed) settings.defaultTheme = DEFAULT_SETTINGS.defaultTheme;
+    const d = DEFAULT_SETTINGS;
+    settings.defaultTheme = coerceChoice(settings.defaultTheme, THEME_CHOICES, d.defaultTheme);
+    settings.layoutStrategy = coerceChoice(
+      settings.layoutStrategy,
+      LAYOUT_STRATEGIES,
+      d.layoutStrategy,
+    );
+    settings.transition = coerceChoice(settings.transition, SLIDE_TRANSITIONS, d.transition);
+    settings.language = coerceLanguage(settings.language, d.language);
   }
 
   private coerceOnboardingFields(settings: SmartSlidesSettings): void {
@@ -160,6 +264,192 @@ export default class SmartSlidesPlugin extends Plugin {
     if (!versionValid) settings.onboardingVersion = DEFAULT_SETTINGS.onboardingVersion;
   }
 
+  private registerGenerationCommands(): void {
+    this.addCommand({
+      id: 'smart-slides-generate-from-note',
+      name: 'Generate slides from active note',
+      callback: async () => this.generateFromActiveNote(),
+    });
+    this.addCommand({
+      id: 'smart-slides-generate-from-prompt',
+      name: 'Generate slides from a prompt',
+      callback: async () => this.generateFromPrompt(),
+    });
+    this.registerEditorCommands();
+    this.registerBatchCommands();
+  }
+
+  private registerBatchCommands(): void {
+    this.addCommand({
+      id: 'smart-slides-generate-folder',
+      name: 'Generate slides for every note in a folder',
+      callback: async () => {
+        const folder = await chooseFolder(this.app);
+        if (folder) await this.generateForFolder(folder);
+      },
+    });
+    this.addCommand({
+      id: 'smart-slides-generate-tag',
+      name: 'Generate slides for every note with a tag',
+      callback: async () => {
+        const tag = await chooseTag(this.app);
+        if (tag) await this.generateForTag(tag);
+      },
+    });
+    this.registerEvent(
+      this.app.workspace.on('file-menu', (menu, file) => {
+        if (!(file instanceof TFolder)) return;
+        menu.addItem((item) =>
+          item
+            .setTitle('Generate slides for notes in folder')
+            .setIcon('presentation')
+            .onClick(() => void this.generateForFolder(file)),
+        );
+      }),
+    );
+  }
+
+  private registerEditorCommands(): void {
+    this.addCommand({
+      id: 'smart-slides-generate-from-selection',
+      name: 'Generate slides from selection',
+      editorCheckCallback: (checking, editor, ctx) => {
+        const file = ctx.file;
+        if (!file || editor.getSelection().trim().length === 0) return false;
+        if (!checking) void this.generateFromSelection(editor, file);
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: 'smart-slides-generate-from-section',
+      name: 'Generate slides from current section',
+      editorCheckCallback: (checking, editor, ctx) => {
+        const file = ctx.file;
+        if (!file) return false;
+        if (!checking) void this.generateFromSection(editor, file);
+        return true;
+      },
+    });
+  }
+
+  private async generateFromActiveNote(): Promise<void> {
+    const file = this.app.workspace.getActiveFile();
+    if (!file || file.extension !== 'md' || !this.runner) {
+      new Notice('Open a markdown note to generate slides');
+      return;
+    }
+    const markdown = await this.app.vault.cachedRead(file);
+    const result = await this.runner.run({ markdown, sourceFile: file }, this.settings);
+    if (!result.ok) {
+      this.reportFailure(result.error);
+      return;
+    }
+    await this.markUsed();
+  }
+
+  private async generateFromPrompt(): Promise<void> {
+    const prompt = await askForPrompt(this.app);
+    if (!prompt || !this.runner) return;
+    const result = await this.runner.runPrompt(prompt, this.settings);
+    if (!result.ok) {
+      this.reportFailure(result.error);
+      return;
+    }
+    await this.markUsed();
+  }
+
+  private async generateForFolder(folder: TFolder): Promise<void> {
+    const name = folder.isRoot() ? this.app.vault.getName() : folder.name;
+    const prefix = folder.isRoot() ? '' : `${folder.path}/`;
+    await this.generateBatch(notesInFolder(folder), `folder ${name}`, `${prefix}${name}`);
+  }
+
+  private async generateForTag(tag: string): Promise<void> {
+    // Nested tags (#project/alpha) name a summary in the vault root, not a folder
+    const name = tag.replace(/^#/, '').replace(/\//g, '-');
+    await this.generateBatch(notesWithTag(this.app, tag), `tag ${tag}`, name);
+  }
+
+  /** `summaryName` is the vault path of the summary note without its ` - Slides Index` suffix. */
+  private async generateBatch(files: TFile[], scope: string, summaryName: string): Promise<void> {
+    if (!this.runner) return;
+    if (files.length === 0) {
+      new Notice(`No notes to generate slides for in ${scope}`);
+      return;
+    }
+    const summaryPath = `${summaryName.replace(/[\\:*?"<>|#^[\]]/g, '-')} - Slides Index.md`;
+    const result = await this.runner.runBatch({ files, scope, summaryPath }, this.settings);
+    if (!result.ok) {
+      this.reportFailure(result.error);
+      return;
+    }
+    await this.markUsed();
+  }
+
+  private async generateFromSelection(editor: Editor, file: TFile): Promise<void> {
+    const markdown = editor.getSelection();
+    const startLine = editor.getCursor('from').line;
+    await this.generateAndLink(editor, file, {
+      markdown,
+      label: selectionLabel(markdown),
+      locate: (note) => findTextEnd(note, markdown, startLine),
+    });
+  }
+
+  private async generateFromSection(editor: Editor, file: TFile): Promise<void> {
+    const section = findSectionAt(editor.getValue(), editor.getCursor().line);
+    if (!section) {
+      new Notice('Place the cursor under a heading to generate slides for its section');
+      return;
+    }
+    await this.generateAndLink(editor, file, {
+      markdown: section.text,
+      label: section.title,
+      locate: (note) => relocateSection(note, section)?.endLine ?? null,
+    });
+  }
+
+  /**
+   * Generates a partial deck and inserts a link to it after the part in the source note. The
+   * part is looked up again once the deck is written, since the note may have been edited
+   * while it was generated.
+   */
+  private async generateAndLink(
+    editor: Editor,
+    file: TFile,
+    part: { markdown: string; label: string; locate: (note: string) => number | null },
+  ): Promise<void> {
+    if (!this.runner) return;
+    const result = await this.runner.run(
+      { markdown: part.markdown, sourceFile: file, label: part.label, openDeck: false },
+      this.settings,
+    );
+    if (!result.ok) {
+      this.reportFailure(result.error);
+      return;
+    }
+    const link = this.app.fileManager.generateMarkdownLink(result.value, file.path);
+    const line = part.locate(editor.getValue());
+    if (line === null) {
+      new Notice('The note changed during generation; no link to the deck was added');
+    } else {
+      editor.replaceRange(`\n\nSlides: ${link}`, { line, ch: editor.getLine(line).length });
+    }
+    await this.markUsed();
+  }
+
+  private reportFailure(error: Error): void {
+    // Cancellation is reported by the runner itself
+    if (error instanceof GenerationCancelledError) return;
+    new Notice(`Generation failed: ${error.message}`);
+  }
+
+  private async markUsed(): Promise<void> {
+    this.settings.lastUsedAt = Date.now();
+    await this.saveSettings();
+  }
+
   private async maybeShowOnboarding(): Promise<void> {
     const shouldShow =
       this.settings.hasCompletedOnboarding !== true ||
@@ -188,6 +478,12 @@ export default class SmartSlidesPlugin extends Plugin {
   }
 }
 
+// Distinct per selection, so a new selection does not overwrite the deck of another one
+function selectionLabel(markdown: string): string {
+  const words = (markdown.match(/[\p{L}\p{N}]+/gu) ?? []).slice(0, 4).join(' ');
+  return `Selection ${words} ${hashString(markdown.trim()).slice(0, 6)}`.replace(/\s+/g, ' ');
+}
+
 async function sleep(ms: number): Promise<void> {
   await new Promise((resolve) => setTimeout(resolve, ms));
 }
@@ -212,6 +508,9 @@ class SmartSlidesSettingTab extends PluginSettingTab {
       this.filterSettings(containerEl, searchInput.value),
     );
     this.renderGeneralSection(containerEl);
+    this.renderGenerationSection(containerEl);
+    this.renderAnalysisSection(containerEl);
+    this.renderDeckSection(containerEl);
     this.renderControlsSection(containerEl);
   }
 
@@ -265,6 +564,18 @@ class SmartSlidesSettingTab extends PluginSettingTab {
           .setTooltip('Generator will not exceed this bound; actual count depends on content.'),
       );
 
+    new Setting(containerEl)
+      .setName('Summarize merged slides')
+      .setDesc(
+        'When sections are merged to stay under Max slides, condense long ones with Text Generator.',
+      )
+      .addToggle((t) => {
+        t.setValue(this.plugin.settings.condenseMerged).onChange(async (v) => {
+          this.plugin.settings.condenseMerged = Boolean(v);
+          await this.plugin.saveSettings();
+        });
+      });
+
     new Setting(containerEl)
       .setName('Safe mode')
       .setDesc('Apply aggressive sanitization and validation to user inputs and generated content.')
@@ -276,6 +587,182 @@ class SmartSlidesSettingTab extends PluginSettingTab {
       });
   }
 
+  private renderGenerationSection(containerEl: HTMLElement): void {
+    new Setting(containerEl)
+      .setName('Layout strategy')
+      .setDesc('Auto varies layouts for visual flow; minimal keeps plain content slides.')
+      .addDropdown((d) => {
+        d.addOptions({ auto: 'Auto', static: 'Rules only', minimal: 'Minimal' });
+        d.setValue(this.plugin.settings.layoutStrategy);
+        d.onChange(async (v) => {
+          this.plugin.settings.layoutStrategy = v as LayoutStrategy;
+          await this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName('Slide transition')
+      .setDesc('Transition applied to every generated slide.')
+      .addDropdown((d) => {
+        SLIDE_TRANSITIONS.forEach((t) => d.addOption(t, t));
+        d.setValue(this.plugin.settings.transition);
+        d.onChange(async (v) => {
+          this.plugin.settings.transition = v as SlideTransition;
+          await this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName('Overflowing content')
+      .setDesc('When a slide has more lines than fit: keep them as speaker notes or add slides.')
+      .addDropdown((d) => {
+        d.addOptions({ notes: 'Speaker notes', split: 'Split into more slides' });
+        d.setValue(this.plugin.settings.overflowMode);
+        d.onChange(async (v) => {
+          this.plugin.settings.overflowMode = v as OverflowMode;
+          await this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName('Source text in speaker notes')
+      .setDesc('Add the full source paragraph of every slide to its speaker notes.')
+      .addToggle((t) => {
+        t.setValue(this.plugin.settings.sourceInNotes).onChange(async (v) => {
+          this.plugin.settings.sourceInNotes = Boolean(v);
+          await this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName('Batch concurrency')
+      .setDesc('Notes generated at the same time when generating a folder or tag.')
+      .addSlider((s) => {
+        s.setLimits(1, MAX_BATCH_CONCURRENCY, 1).setDynamicTooltip();
+        s.setValue(this.plugin.settings.batchConcurrency).onChange(async (v) => {
+          this.plugin.settings.batchConcurrency = coerceConcurrency(v);
+          await this.plugin.saveSettings();
+        });
+      });
+  }
+
+  private renderAnalysisSection(containerEl: HTMLElement): void {
+    new Setting(containerEl)
+      .setName('Language')
+      .setDesc("Content language, e.g. 'en' or 'pl'; 'auto' detects it from the note.")
+      .addText((t) => {
+        t.setValue(this.plugin.settings.language);
+        t.onChange(async (raw) => {
+          this.plugin.settings.language = coerceLanguage(raw, this.plugin.settings.language);
+          await this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName('Lexicon packs')
+      .setDesc('JSON file in the vault with extra domains and audience cues for content analysis.')
+      .addText((t) => {
+        t.setPlaceholder('e.g. Smart Slides/lexicons.json');
+        t.setValue(this.plugin.settings.lexiconPacksPath);
+        t.onChange(async (raw) => {
+          this.plugin.settings.lexiconPacksPath = raw.trim();
+          await this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName('Vault keyphrases')
+      .setDesc('Rank key topics by how rare they are across your notes, not only by frequency.')
+      .addToggle((t) => {
+        t.setValue(this.plugin.settings.keyphraseCorpus).onChange(async (v) => {
+          this.plugin.settings.keyphraseCorpus = Boolean(v);
+          await this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName('Keyphrase folder')
+      .setDesc('Only notes in this folder are compared; leave empty for the whole vault.')
+      .addText((t) => {
+        t.setPlaceholder('e.g. Lectures');
+        t.setValue(this.plugin.settings.corpusFolder);
+        t.onChange(async (raw) => {
+          this.plugin.settings.corpusFolder = raw.trim();
+          await this.plugin.saveSettings();
+        });
+      });
+  }
+
+  private renderDeckSection(containerEl: HTMLElement): void {
+    new Setting(containerEl)
+      .setName('Slide size')
+      .setDesc('Aspect ratio written to the deck frontmatter.')
+      .addDropdown((d) => {
+        d.addOptions({ '16:9': '16:9 (1280×720)', '4:3': '4:3 (960×720)' });
+        d.setValue(this.plugin.settings.slideSize);
+        d.onChange(async (v) => {
+          this.plugin.settings.slideSize = v as SlideSize;
+          await this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName('Navigation controls')
+      .setDesc('Show the navigation arrows when presenting.')
+      .addToggle((t) => {
+        t.setValue(this.plugin.settings.showControls).onChange(async (v) => {
+          this.plugin.settings.showControls = Boolean(v);
+          await this.plugin.saveSettings();
+        });
+      });
+
+    this.renderStructureToggle(
+      containerEl,
+      'titleSlide',
+      'Title slide',
+      'Open with the note title.',
+    );
+    this.renderStructureToggle(
+      containerEl,
+      'agendaSlide',
+      'Agenda slide',
+      'List the sections (or key topics) after the title.',
+    );
+    this.renderStructureToggle(
+      containerEl,
+      'closingSlide',
+      'Closing slide',
+      'End with a questions slide.',
+    );
+
+    new Setting(containerEl)
+      .setName('Explain mode')
+      .setDesc('Write a report next to each deck explaining the theme and layout choices.')
+      .addToggle((t) => {
+        t.setValue(this.plugin.settings.explain).onChange(async (v) => {
+          this.plugin.settings.explain = Boolean(v);
+          await this.plugin.saveSettings();
+        });
+      });
+  }
+
+  private renderStructureToggle(
+    containerEl: HTMLElement,
+    key: 'titleSlide' | 'agendaSlide' | 'closingSlide',
+    name: string,
+    desc: string,
+  ): void {
+    new Setting(containerEl)
+      .setName(name)
+      .setDesc(`${desc} Notes can override this in their smart-slides frontmatter.`)
+      .addToggle((t) => {
+        t.setValue(this.plugin.settings[key]).onChange(async (v) => {
+          this.plugin.settings[key] = Boolean(v);
+          await this.plugin.saveSettings();
+        });
+      });
+  }
+
   private renderControlsSection(containerEl: HTMLElement): void {
     new Setting(containerEl)
       .setName('Restore defaults')
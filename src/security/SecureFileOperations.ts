@@ -4,6 +4,7 @@
 */
 
 import { Result, ok, err } from '../types/Result';
+import { validateSafeFilename } from './InputValidator';
 
 export interface SafePath {
   path: string; // canonical, normalized, vault-relative path
@@ -23,3 +24,34 @@ export function normalizeVaultRelativePath(candidate: string): Result<SafePath>
   const normalized = trimmed.replace(/\\+/g, '/');
   return ok({ path: normalized });
 }
+
+/**
+ * Builds a vault-relative path for `fileName` placed in the same folder as `sourcePath`.
+ * The file name is validated on its own so it cannot escape that folder.
+ */
+export function resolveSiblingPath(sourcePath: string, fileName: string): Result<SafePath> {
+  const safeName = validateSafeFilename(fileName);
+  if (!safeName.ok) return safeName;
+  const source = normalizeVaultRelativePath(sourcePath);
+  if (!source.ok) return source;
+  const slash = source.value.path.lastIndexOf('/');
+  const folder = slash >= 0 ? source.value.path.slice(0, slash + 1) : '';
+  return normalizeVaultRelativePath(`${folder}${safeName.value}`);
+}
+
+/**
+ * Resolves a user-chosen deck location such as `Decks/` or `Decks/Weekly review`. A path ending
+ * in `/` is a folder that receives `defaultFileName`; a file without extension gets `.md`.
+ */
+export function resolveOutputPath(candidate: string, defaultFileName: string): Result<SafePath> {
+  const normalized = normalizeVaultRelativePath(candidate);
+  if (!normalized.ok) return normalized;
+  const path = normalized.value.path;
+  const slash = path.lastIndexOf('/');
+  const folder = path.slice(0, slash + 1);
+  const rawName = path.slice(slash + 1) || defaultFileName;
+  const safeName = validateSafeFilename(rawName);
+  if (!safeName.ok) return safeName;
+  const fileName = /\.md$/i.test(safeName.value) ? safeName.value : `${safeName.value}.md`;
+  return normalizeVaultRelativePath(`${folder}${fileName}`);
+}
@@ -0,0 +1,35 @@
+import {
+  normalizeVaultRelativePath,
+  resolveOutputPath,
+  resolveSiblingPath,
+} from '../../security/SecureFileOperations';
+
+describe('SecureFileOperations', () => {
+  test('normalizeVaultRelativePath rejects traversal and absolute paths', () => {
+    expect(normalizeVaultRelativePath('../x.md').ok).toBe(false);
+    expect(normalizeVaultRelativePath('/x.md').ok).toBe(false);
+    const res = normalizeVaultRelativePath('notes\\\\deck.md');
+    expect(res.ok && res.value.path).toBe('notes/deck.md');
+  });
+
+  test('resolveSiblingPath places the file next to its source', () => {
+    const nested = resolveSiblingPath('Projects/Weekly/Review.md', 'Review - Slides.md');
+    expect(nested.ok && nested.value.path).toBe('Projects/Weekly/Review - Slides.md');
+    const root = resolveSiblingPath('Review.md', 'Review - Slides.md');
+    expect(root.ok && root.value.path).toBe('Review - Slides.md');
+  });
+
+  test('resolveSiblingPath rejects unsafe file names', () => {
+    expect(resolveSiblingPath('Notes/a.md', '../b.md').ok).toBe(false);
+    expect(resolveSiblingPath('Notes/a.md', 'sub/b.md').ok).toBe(false);
+  });
+
+  test('resolveOutputPath accepts folders and adds the markdown extension', () => {
+    const folder = resolveOutputPath('Decks/', 'Review - Slides.md');
+    expect(folder.ok && folder.value.path).toBe('Decks/Review - Slides.md');
+    const named = resolveOutputPath('Decks/Weekly', 'Review - Slides.md');
+    expect(named.ok && named.value.path).toBe('Decks/Weekly.md');
+    expect(resolveOutputPath('../Decks/', 'x.md').ok).toBe(false);
+    expect(resolveOutputPath('Decks/a:b', 'x.md').ok).toBe(false);
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Vocabulary of content analysis, shared by AnalyzerService, its lexicons and lexicon packs.
+ * This module imports nothing, so any of them can depend on it without forming an import cycle.
+ */
+
+/**
+ * Target audience categories detected from text.
+ */
+export type Audience = 'students' | 'executives' | 'technical' | 'general';
+export type BuiltInDomain =
+  | 'technology'
+  | 'business'
+  | 'medicine'
+  | 'education'
+  | 'science'
+  | 'general';
+// Built-in domains, or the domain label of a lexicon pack
+export type Domain = BuiltInDomain | (string & Record<never, never>);
+export type Purpose = 'inform' | 'persuade' | 'educate' | 'inspire';
+export type Complexity = 'beginner' | 'intermediate' | 'advanced';
+export type Tone = 'formal' | 'casual' | 'academic' | 'business';
+export type AnalysisLanguage = 'en' | 'pl';
+
+export interface KeyTopic {
+  term: string; // a word or a phrase of up to three words
+  count: number;
+  score: number; // TF-IDF against the corpus, or count times words without one
+}
+
+export type AnalysisDimension =
+  | 'language'
+  | 'audience'
+  | 'domain'
+  | 'purpose'
+  | 'complexity'
+  | 'tone';
+
+/** How sure the heuristic behind one field was, and what it went by. */
+export interface DimensionConfidence {
+  score: number; // 0-1; 0 for a fallback value no cue supports
+  evidence: string[]; // matched words, most frequent first
+}
+
+// Below this a field is a guess: the theme choice ignores it and the explain report flags it
+export const LOW_CONFIDENCE = 0.35;
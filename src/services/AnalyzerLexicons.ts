@@ -0,0 +1,305 @@
+import type { AnalysisLanguage, Audience, Domain, Purpose, Tone } from './AnalysisTypes';
+
+/**
+ * Per-language word lists and cues for `AnalyzerService`. Cue tables are ordered: the first
+ * matching entry wins. Polish cues are word stems matched at the start of a word, so inflected
+ * forms (`studenci`, `studentów`) match the same cue.
+ */
+export interface AnalyzerLexicon {
+  language: AnalysisLanguage;
+  stopwords: ReadonlySet<string>;
+  audience: ReadonlyArray<readonly [Audience, RegExp]>;
+  domain: ReadonlyArray<readonly [Domain, RegExp]>;
+  purpose: ReadonlyArray<readonly [Purpose, RegExp]>;
+  tone: ReadonlyArray<readonly [Tone, RegExp]>;
+  formalCues: RegExp; // global; every match raises formality
+  casualCues: RegExp; // global; every match lowers formality
+  contractions?: RegExp; // global; English `we're`, `it's`
+  beginnerCues: RegExp;
+  jargon: RegExp; // tested per token
+  // Average word length above which text reads intermediate or advanced
+  wordLength: { intermediate: number; advanced: number };
+}
+
+// Matches any of `stems` at the start of a word; `\b` only knows ASCII letters
+function stems(...words: string[]): RegExp {
+  return new RegExp(`(?<![\\p{L}\\p{N}])(${words.join('|')})`, 'u');
+}
+
+function allStems(...words: string[]): RegExp {
+  return new RegExp(`(?<![\\p{L}\\p{N}])(${words.join('|')})`, 'gu');
+}
+
+/** Matches any of the literal `words` (e.g. from a lexicon pack) at the start of a word. */
+export function keywordPattern(words: readonly string[]): RegExp {
+  if (words.length === 0) return /(?!)/g;
+  return allStems(...words.map((w) => w.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')));
+}
+
+export const ENGLISH: AnalyzerLexicon = {
+  language: 'en',
+  stopwords: new Set([
+    'the',
+    'a',
+    'an',
+    'and',
+    'or',
+    'of',
+    'to',
+    'in',
+    'on',
+    'for',
+    'with',
+    'by',
+    'is',
+    'are',
+    'was',
+    'were',
+    'be',
+    'this',
+    'that',
+    'it',
+    'as',
+    'at',
+    'from',
+    'we',
+    'you',
+    'they',
+    'i',
+    'about',
+    'into',
+    'over',
+    'under',
+    'between',
+    'your',
+    'our',
+    'their',
+    'but',
+    'not',
+    'can',
+    'will',
+    'just',
+    'so',
+    'if',
+    'then',
+    'than',
+  ]),
+  audience: [
+    ['students', /(class|lecture|students|exam|homework|course)\b/],
+    ['executives', /(roi|stakeholders|kpi|board|executive|strategy)\b/],
+    ['technical', /(api|code|developer|sdk|architecture|runtime|algorithm)\b/],
+  ],
+  domain: [
+    ['technology', /(api|cloud|microservices|runtime|compiler|frontend|backend|database)/],
+    ['business', /(market|revenue|profit|roi|kpi|customer|sales|marketing|strategy)/],
+    ['medicine', /(patient|clinical|therapy|symptom|diagnosis|medicine|surgery)/],
+    ['education', /(curriculum|lesson|teacher|student|pedagogy|education)/],
+    ['science', /(experiment|hypothesis|physics|biology|chemistry|research)/],
+  ],
+  purpose: [
+    ['educate', /(how to|tutorial|guide|step by step|learn)/],
+    ['persuade', /(recommend|should|must|convince|why)/],
+    ['inspire', /(inspire|motivate|vision|aspire|story)/],
+  ],
+  tone: [
+    ['academic', /(therefore|hence|consequently|notwithstanding|whereas)/],
+    ['business', /(profit|market|roi|stakeholder|synergy|roadmap)/],
+    ['casual', /(lol|hey|cool|awesome|guys|gonna|wanna)/],
+  ],
+  formalCues: /therefore|however|moreover|furthermore|hence|thus/g,
+  casualCues: /gonna|wanna|kinda|sorta|lol|btw|hey|cool/g,
+  contractions: /\b(\w+)'(re|s|ve|d|ll|t)\b/g,
+  beginnerCues: /(\bbeginner\b|\bintroduction\b|\bintro\b|\boverview\b|\bbasics\b|\bsimple\b)/,
+  jargon: /ization|ality|ivity|ology|metric|module|async|neural|quantum/,
+  wordLength: { intermediate: 5.5, advanced: 6.5 },
+};
+
+export const POLISH: AnalyzerLexicon = {
+  language: 'pl',
+  stopwords: new Set([
+    'a',
+    'aby',
+    'ale',
+    'bez',
+    'by',
+    'być',
+    'był',
+    'była',
+    'było',
+    'były',
+    'co',
+    'czy',
+    'dla',
+    'do',
+    'gdy',
+    'go',
+    'i',
+    'ich',
+    'jak',
+    'jako',
+    'je',
+    'jego',
+    'jej',
+    'jest',
+    'już',
+    'ma',
+    'mają',
+    'może',
+    'można',
+    'na',
+    'nad',
+    'nie',
+    'o',
+    'od',
+    'oraz',
+    'po',
+    'pod',
+    'przed',
+    'przez',
+    'przy',
+    'się',
+    'są',
+    'ta',
+    'tak',
+    'także',
+    'tam',
+    'te',
+    'tego',
+    'też',
+    'to',
+    'tu',
+    'tylko',
+    'tym',
+    'ten',
+    'w',
+    'we',
+    'więc',
+    'z',
+    'za',
+    'ze',
+    'że',
+    'który',
+    'która',
+    'które',
+    'których',
+    'którym',
+    'między',
+    'lub',
+    'albo',
+    'nas',
+    'was',
+    'nam',
+    'my',
+    'wy',
+    'oni',
+    'one',
+    'jeśli',
+    'jeżeli',
+    'niż',
+    'bardzo',
+  ]),
+  audience: [
+    [
+      'students',
+      stems('student', 'wykład', 'egzamin', 'zajęci', 'kolokwi', 'ćwiczeni', 'semestr', 'kurs'),
+    ],
+    [
+      'executives',
+      stems('zarząd', 'interesariusz', 'kpi', 'roi', 'strategi', 'prezes', 'inwestor'),
+    ],
+    [
+      'technical',
+      stems('api', 'kod(u|zie|em)?(?!\\p{L})', 'programist', 'deweloper', 'sdk', 'architektur'),
+    ],
+  ],
+  domain: [
+    [
+      'technology',
+      stems(
+        'api',
+        'chmur',
+        'mikroserwis',
+        'kompilator',
+        'frontend',
+        'backend',
+        'baz[aąyieo] danych',
+        'serwer',
+        'oprogramowani',
+        'uczeni[ae] maszynow',
+        'sieci neuronow',
+        'sztuczn[aąej]+ inteligencj',
+      ),
+    ],
+    [
+      'business',
+      stems(
+        'rynk',
+        'rynek',
+        'przychod',
+        'przychód',
+        'zysk',
+        'klient',
+        'sprzeda',
+        'marketing',
+        'marż',
+      ),
+    ],
+    ['medicine', stems('pacjent', 'klinicz', 'terapi', 'objaw', 'diagnoz', 'medycyn', 'chirurg')],
+    ['education', stems('program nauczania', 'lekcj', 'nauczyciel', 'uczni', 'uczeń', 'pedagog')],
+    ['science', stems('eksperyment', 'hipotez', 'fizyk', 'biologi', 'chemi', 'badani')],
+  ],
+  purpose: [
+    [
+      'educate',
+      stems('poradnik', 'samouczek', 'krok po kroku', 'instrukcj', 'zrozumieć', 'poznać'),
+    ],
+    ['persuade', stems('rekomend', 'zaleca', 'proponuj', 'powinn', 'musimy', 'przekona')],
+    ['inspire', stems('inspir', 'zmotywow', 'motywacj', 'wizj', 'marzeni')],
+  ],
+  tone: [
+    ['academic', stems('zatem', 'wobec tego', 'w konsekwencji', 'niemniej', 'tym samym')],
+    ['business', stems('zysk', 'rynk', 'rynek', 'roi', 'interesariusz', 'synergi', 'przychod')],
+    ['casual', stems('hej', 'siema', 'super', 'fajn', 'spoko', 'ziom', 'mega')],
+  ],
+  formalCues: allStems('ponadto', 'jednakże', 'zatem', 'wobec tego', 'tym samym', 'niniejsz'),
+  casualCues: allStems('hej', 'siema', 'spoko', 'fajn', 'super', 'ziom', 'btw', 'lol', 'xd'),
+  beginnerCues: stems('wprowadzeni', 'wstęp', 'podstaw', 'dla początkujących'),
+  jargon: /izacj|ologi|metryk|moduł|asynchron|neuron|kwant|gradient|optymaliz/,
+  // Polish words run longer than English ones
+  wordLength: { intermediate: 6.5, advanced: 7.5 },
+};
+
+export const LEXICONS: Record<AnalysisLanguage, AnalyzerLexicon> = { en: ENGLISH, pl: POLISH };
+
+const POLISH_LETTERS = /[ąćęłńóśźż]/;
+
+/** The supported language named by a tag such as `pl` or `en-GB`, if any. */
+export function languageHint(hint?: string): AnalysisLanguage | undefined {
+  const hinted = hint?.toLowerCase().split('-')[0];
+  return hinted === 'en' || hinted === 'pl' ? hinted : undefined;
+}
+
+/**
+ * The tokens that vote for each language: stopwords only one of the languages has, and words
+ * with Polish letters for Polish.
+ */
+export function languageCues(tokens: string[]): Record<AnalysisLanguage, string[]> {
+  const cues: Record<AnalysisLanguage, string[]> = { en: [], pl: [] };
+  for (const token of tokens) {
+    if (ENGLISH.stopwords.has(token) && !POLISH.stopwords.has(token)) cues.en.push(token);
+    if (POLISH.stopwords.has(token) && !ENGLISH.stopwords.has(token)) cues.pl.push(token);
+    if (POLISH_LETTERS.test(token)) cues.pl.push(token);
+  }
+  return cues;
+}
+
+/**
+ * The language of `tokens`: an explicit `hint` such as `pl` or `en-GB` when it names a supported
+ * language, otherwise the language with the most `languageCues`. Ties go to English.
+ */
+export function detectLanguage(tokens: string[], hint?: string): AnalysisLanguage {
+  const hinted = languageHint(hint);
+  if (hinted) return hinted;
+  const cues = languageCues(tokens);
+  return cues.pl.length > cues.en.length ? 'pl' : 'en';
+}
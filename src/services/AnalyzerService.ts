@@ -1,21 +1,51 @@
-/**
- * Target audience categories detected from text.
- */
-export type Audience = 'students' | 'executives' | 'technical' | 'general';
-export type Domain = 'technology' | 'business' | 'medicine' | 'education' | 'science' | 'general';
-export type Purpose = 'inform' | 'persuade' | 'educate' | 'inspire';
-export type Complexity = 'beginner' | 'intermediate' | 'advanced';
-export type Tone = 'formal' | 'casual' | 'academic' | 'business';
+import {
+  AnalyzerLexicon,
+  LEXICONS,
+  detectLanguage,
+  keywordPattern,
+  languageCues,
+  languageHint,
+} from './AnalyzerLexicons';
+import { stripFrontmatter } from './DocumentSegmenter';
+import type { LexiconPack } from './LexiconPacks';
+import { PhraseStats, extractKeyphrases } from './Keyphrases';
+import {
+  AnalysisDimension,
+  AnalysisLanguage,
+  Audience,
+  Complexity,
+  DimensionConfidence,
+  Domain,
+  KeyTopic,
+  Purpose,
+  Tone,
+} from './AnalysisTypes';
+
+export { LOW_CONFIDENCE } from './AnalysisTypes';
+export type {
+  AnalysisDimension,
+  AnalysisLanguage,
+  Audience,
+  BuiltInDomain,
+  Complexity,
+  DimensionConfidence,
+  Domain,
+  KeyTopic,
+  Purpose,
+  Tone,
+} from './AnalysisTypes';
 
-export interface KeyTopic {
-  term: string;
-  count: number;
+export interface AnalyzeOptions {
+  language?: string; // 'auto' or a tag such as `pl` or `en-US`; unsupported tags are detected
+  packs?: readonly LexiconPack[]; // user vocabulary, tried before the built-in cues
+  corpus?: PhraseStats; // e.g. the vault; phrases common across it make weaker key topics
 }
 
 /**
  * Result of content analysis derived from a freeform text.
  */
 export interface ContentAnalysis {
+  language: AnalysisLanguage; // picks the stopwords and cues of the other fields
   audience: Audience;
   formalityScore: number; // 1-10
   domain: Domain;
@@ -24,150 +54,182 @@ export interface ContentAnalysis {
   suggestedSlideCount: number;
   keyTopics: KeyTopic[];
   tone: Tone;
+  confidence: Record<AnalysisDimension, DimensionConfidence>;
+}
+
+/**
+ * Complexity, tone and key topics of one section of a document, next to the analysis of the
+ * whole document: an executive summary and a technical appendix of the same note differ here.
+ */
+export interface SectionAnalysis {
+  complexity: Complexity;
+  tone: Tone; // the document's tone when the section has no tone cues of its own
+  keyTopics: KeyTopic[];
+  confidence: Record<'complexity' | 'tone', DimensionConfidence>;
 }
 
-const STOPWORDS = new Set([
-  'the',
-  'a',
-  'an',
-  'and',
-  'or',
-  'of',
-  'to',
-  'in',
-  'on',
-  'for',
-  'with',
-  'by',
-  'is',
-  'are',
-  'was',
-  'were',
-  'be',
-  'this',
-  'that',
-  'it',
-  'as',
-  'at',
-  'from',
-  'we',
-  'you',
-  'they',
-  'i',
-  'about',
-  'into',
-  'over',
-  'under',
-  'between',
-  'your',
-  'our',
-  'their',
-  'but',
-  'not',
-  'can',
-  'will',
-  'just',
-  'so',
-  'if',
-  'then',
-  'than',
-]);
+const SECTION_TOPICS = 3;
 
 function tokenize(text: string): string[] {
   return text
     .toLowerCase()
-    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
     .split(/\s+/)
     .filter(Boolean);
 }
 
-function countWords(tokens: string[]): Map<string, number> {
+/** A detected field value together with how sure the heuristic was about it. */
+interface Detected<T> {
+  value: T;
+  confidence: DimensionConfidence;
+}
+
+/** The words that matched one label of a cue table, one entry per occurrence. */
+interface CueHit<T> {
+  label: T;
+  words: string[];
+}
+
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+const MAX_EVIDENCE = 5;
+
+// The whole word a cue matched in, e.g. `studentów` for the stem `student`
+function wordAround(lc: string, start: number, end: number): string {
+  let from = start;
+  let to = end;
+  while (from > 0 && WORD_CHAR.test(lc[from - 1])) from--;
+  while (to < lc.length && WORD_CHAR.test(lc[to])) to++;
+  return lc.slice(from, to);
+}
+
+function matchedWords(lc: string, cue: RegExp): string[] {
+  const global = cue.global ? cue : new RegExp(cue.source, `${cue.flags}g`);
+  return Array.from(lc.matchAll(global), (m) =>
+    wordAround(lc, m.index ?? 0, (m.index ?? 0) + m[0].length),
+  );
+}
+
+function cueHits<T>(lc: string, cues: ReadonlyArray<readonly [T, RegExp]>): CueHit<T>[] {
+  return cues
+    .map(([label, cue]) => ({ label, words: matchedWords(lc, cue) }))
+    .filter((hit) => hit.words.length > 0);
+}
+
+/**
+ * Confidence from the words supporting a value and the number of matches for other values of
+ * the same field: one lone cue gives 0.5, every further cue raises it and rival cues lower it.
+ */
+function confidenceOf(words: string[], rivals = 0): DimensionConfidence {
+  const hits = words.length;
+  if (hits === 0) return { score: 0, evidence: [] };
+  const score = (hits / (hits + 1)) * (hits / (hits + rivals));
+  return { score: Math.round(score * 100) / 100, evidence: topWords(words) };
+}
+
+// Distinct words, most frequent first
+function topWords(words: string[]): string[] {
   const counts = new Map<string, number>();
-  for (const t of tokens) {
-    if (STOPWORDS.has(t) || t.length < 3) continue;
-    counts.set(t, (counts.get(t) ?? 0) + 1);
-  }
-  return counts;
+  for (const w of words) counts.set(w, (counts.get(w) ?? 0) + 1);
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_EVIDENCE)
+    .map(([w]) => w);
+}
+
+/** The label of the first hit wins; hits for other labels count against it. */
+function pick<T>(hits: CueHit<T>[], fallback: T): Detected<T> {
+  if (hits.length === 0) return { value: fallback, confidence: confidenceOf([]) };
+  const value = hits[0].label;
+  const support = hits.filter((h) => h.label === value).flatMap((h) => h.words);
+  const rivals = hits.filter((h) => h.label !== value).reduce((n, h) => n + h.words.length, 0);
+  return { value, confidence: confidenceOf(support, rivals) };
+}
+
+function detectAnalysisLanguage(tokens: string[], hint?: string): Detected<AnalysisLanguage> {
+  const value = detectLanguage(tokens, hint);
+  if (languageHint(hint)) return { value, confidence: { score: 1, evidence: [] } };
+  const cues = languageCues(tokens);
+  const rival = value === 'en' ? cues.pl : cues.en;
+  return { value, confidence: confidenceOf(cues[value], rival.length) };
 }
 
-function detectAudience(text: string): Audience {
-  const lc = text.toLowerCase();
-  if (/(class|lecture|students|exam|homework|course)\b/.test(lc)) return 'students';
-  if (/(roi|stakeholders|kpi|board|executive|strategy)\b/.test(lc)) return 'executives';
-  if (/(api|code|developer|sdk|architecture|runtime|algorithm)\b/.test(lc)) return 'technical';
-  return 'general';
+function detectAudience(
+  lc: string,
+  lexicon: AnalyzerLexicon,
+  packs: readonly LexiconPack[],
+): Detected<Audience> {
+  const packHits = packs.flatMap((pack) =>
+    cueHits(
+      lc,
+      Object.entries(pack.audience).map(
+        ([audience, words]) => [audience as Audience, keywordPattern(words ?? [])] as const,
+      ),
+    ),
+  );
+  return pick([...packHits, ...cueHits(lc, lexicon.audience)], 'general');
 }
 
-function scoreFormality(text: string): number {
-  const lc = text.toLowerCase();
+function scoreFormality(lc: string, lexicon: AnalyzerLexicon): number {
   let score = 5;
   // formal cues
-  score += (lc.match(/therefore|however|moreover|furthermore|hence|thus/g) || []).length;
+  score += (lc.match(lexicon.formalCues) || []).length;
   // casual cues reduce
-  score -= (lc.match(/gonna|wanna|kinda|sorta|lol|btw|hey|cool/g) || []).length;
+  score -= (lc.match(lexicon.casualCues) || []).length;
   // contractions lower formality
-  score -= (lc.match(/\b(\w+)'(re|s|ve|d|ll|t)\b/g) || []).length * 0.5;
+  if (lexicon.contractions) score -= (lc.match(lexicon.contractions) || []).length * 0.5;
   // clamp 1-10
   return Math.min(10, Math.max(1, Math.round(score)));
 }
 
-function detectDomain(text: string): Domain {
-  const lc = text.toLowerCase();
-  if (/(api|cloud|microservices|runtime|compiler|frontend|backend|database)/.test(lc))
-    return 'technology';
-  if (/(market|revenue|profit|roi|kpi|customer|sales|marketing|strategy)/.test(lc))
-    return 'business';
-  if (/(patient|clinical|therapy|symptom|diagnosis|medicine|surgery)/.test(lc)) return 'medicine';
-  if (/(curriculum|lesson|teacher|student|pedagogy|education)/.test(lc)) return 'education';
-  if (/(experiment|hypothesis|physics|biology|chemistry|research)/.test(lc)) return 'science';
-  return 'general';
+/** The pack with the most keyword hits claims the text once it reaches the pack's minimum. */
+function detectDomain(
+  lc: string,
+  lexicon: AnalyzerLexicon,
+  packs: readonly LexiconPack[],
+): Detected<Domain> {
+  const packHits = packs
+    .map((pack) => ({ pack, words: matchedWords(lc, keywordPattern(pack.keywords)) }))
+    .filter(({ pack, words }) => words.length >= pack.minMatches)
+    .sort((a, b) => b.words.length - a.words.length)
+    .map(({ pack, words }): CueHit<Domain> => ({ label: pack.domain, words }));
+  return pick([...packHits, ...cueHits(lc, lexicon.domain)], 'general');
 }
 
-function detectPurpose(text: string): Purpose {
-  const lc = text.toLowerCase();
-  if (/(how to|tutorial|guide|step by step|learn)/.test(lc)) return 'educate';
-  if (/(recommend|should|must|convince|why)/.test(lc)) return 'persuade';
-  if (/(inspire|motivate|vision|aspire|story)/.test(lc)) return 'inspire';
-  return 'inform';
+function detectPurpose(lc: string, lexicon: AnalyzerLexicon): Detected<Purpose> {
+  return pick(cueHits(lc, lexicon.purpose), 'inform');
 }
 
-function assessComplexity(text: string): Complexity {
-  const lc = text.toLowerCase();
-  if (/(\bbeginner\b|\bintroduction\b|\bintro\b|\boverview\b|\bbasics\b|\bsimple\b)/.test(lc)) {
-    return 'beginner';
+// Decisions resting on the average word length alone
+const LENGTH_CONFIDENCE = 0.4;
+
+function assessComplexity(
+  lc: string,
+  tokens: string[],
+  lexicon: AnalyzerLexicon,
+): Detected<Complexity> {
+  const jargon = tokens.filter((t) => lexicon.jargon.test(t));
+  const beginnerWords = matchedWords(lc, lexicon.beginnerCues);
+  if (beginnerWords.length > 0) {
+    return { value: 'beginner', confidence: confidenceOf(beginnerWords, jargon.length) };
   }
-  const tokens = tokenize(text);
   const avgLen = tokens.length ? tokens.reduce((s, t) => s + t.length, 0) / tokens.length : 0;
-  const jargonHits = tokens.filter((t) =>
-    /ization|ality|ivity|ology|metric|module|async|neural|quantum/.test(t),
-  ).length;
-  if (jargonHits >= 3 || avgLen > 6.5) return 'advanced';
-  if (jargonHits >= 1 || avgLen > 5.5) return 'intermediate';
-  return 'beginner';
+  const { intermediate, advanced } = lexicon.wordLength;
+  const byLength = { score: LENGTH_CONFIDENCE, evidence: topWords(jargon) };
+  if (jargon.length >= 3) return { value: 'advanced', confidence: confidenceOf(jargon) };
+  if (avgLen > advanced) return { value: 'advanced', confidence: byLength };
+  if (jargon.length >= 1) return { value: 'intermediate', confidence: confidenceOf(jargon) };
+  if (avgLen > intermediate) return { value: 'intermediate', confidence: byLength };
+  return { value: 'beginner', confidence: byLength };
 }
 
-function suggestSlideCount(text: string, complexity: Complexity): number {
-  const words = tokenize(text).length;
-  const base = Math.ceil(words / 120); // ~120 words per slide
+function suggestSlideCount(tokens: string[], complexity: Complexity): number {
+  const base = Math.ceil(tokens.length / 120); // ~120 words per slide
   const factor = complexity === 'advanced' ? 1.3 : complexity === 'intermediate' ? 1.1 : 1.0;
   return Math.max(3, Math.min(40, Math.round(base * factor)));
 }
 
-function extractKeyTopics(text: string, topN = 7): KeyTopic[] {
-  const counts = countWords(tokenize(text));
-  const entries = Array.from(counts.entries())
-    .sort((a, b) => b[1] - a[1])
-    .slice(0, topN)
-    .map(([term, count]) => ({ term, count }));
-  return entries;
-}
-
-function detectTone(text: string): Tone {
-  const lc = text.toLowerCase();
-  if (/(therefore|hence|consequently|notwithstanding|whereas)/.test(lc)) return 'academic';
-  if (/(profit|market|roi|stakeholder|synergy|roadmap)/.test(lc)) return 'business';
-  if (/(lol|hey|cool|awesome|guys|gonna|wanna)/.test(lc)) return 'casual';
-  return 'formal';
+function detectTone(lc: string, lexicon: AnalyzerLexicon): Detected<Tone> {
+  return pick(cueHits(lc, lexicon.tone), 'formal');
 }
 
 /**
@@ -176,26 +238,67 @@ function detectTone(text: string): Tone {
 export class AnalyzerService {
   /**
    * Analyze input text and return a structured `ContentAnalysis` summary.
-   * The heuristics are intentionally simple, fast, and deterministic.
+   * The heuristics are intentionally simple, fast, and deterministic. The language is detected
+   * first (unless `options.language` names a supported one) and picks the cue lexicon; lexicon
+   * packs for that language add their domains and audience cues on top. Key topics are
+   * keyphrases scored against `options.corpus` when given. A leading YAML frontmatter block
+   * (including the note's `smart-slides:` overrides) is not part of the content.
+   */
+  analyze(markdown: string, options: AnalyzeOptions = {}): ContentAnalysis {
+    const text = stripFrontmatter(markdown);
+    const tokens = tokenize(text);
+    const language = detectAnalysisLanguage(tokens, options.language);
+    const lexicon = LEXICONS[language.value];
+    const lc = text.toLowerCase();
+    const packs = (options.packs ?? []).filter((p) => !p.language || p.language === language.value);
+    const audience = detectAudience(lc, lexicon, packs);
+    const domain = detectDomain(lc, lexicon, packs);
+    const purpose = detectPurpose(lc, lexicon);
+    const complexity = assessComplexity(lc, tokens, lexicon);
+    const tone = detectTone(lc, lexicon);
+    return {
+      language: language.value,
+      audience: audience.value,
+      formalityScore: scoreFormality(lc, lexicon),
+      domain: domain.value,
+      purpose: purpose.value,
+      complexity: complexity.value,
+      suggestedSlideCount: suggestSlideCount(tokens, complexity.value),
+      keyTopics: extractKeyphrases(text, lexicon, options.corpus),
+      tone: tone.value,
+      confidence: {
+        language: language.confidence,
+        audience: audience.confidence,
+        domain: domain.confidence,
+        purpose: purpose.confidence,
+        complexity: complexity.confidence,
+        tone: tone.confidence,
+      },
+    };
+  }
+
+  /**
+   * Analyze one section of a document already analyzed as `document`. The section is read in
+   * the document's language, since a few paragraphs are too little to detect one.
    */
-  analyze(text: string): ContentAnalysis {
-    const audience = detectAudience(text);
-    const formalityScore = scoreFormality(text);
-    const domain = detectDomain(text);
-    const purpose = detectPurpose(text);
-    const complexity = assessComplexity(text);
-    const suggestedSlideCount = suggestSlideCount(text, complexity);
-    const keyTopics = extractKeyTopics(text);
-    const tone = detectTone(text);
+  analyzeSection(
+    text: string,
+    document: ContentAnalysis,
+    options: Pick<AnalyzeOptions, 'corpus'> = {},
+  ): SectionAnalysis {
+    const lexicon = LEXICONS[document.language];
+    const lc = text.toLowerCase();
+    const complexity = assessComplexity(lc, tokenize(text), lexicon);
+    const tone = detectTone(lc, lexicon);
+    const ownTone = tone.confidence.score > 0;
     return {
-      audience,
-      formalityScore,
-      domain,
-      purpose,
-      complexity,
-      suggestedSlideCount,
-      keyTopics,
-      tone,
+      complexity: complexity.value,
+      tone: ownTone ? tone.value : document.tone,
+      keyTopics: extractKeyphrases(text, lexicon, options.corpus, SECTION_TOPICS),
+      confidence: {
+        complexity: complexity.confidence,
+        tone: ownTone ? tone.confidence : document.confidence.tone,
+      },
     };
   }
 }
@@ -0,0 +1,166 @@
+import type { OrchestratorEvent } from './PresentationOrchestrator';
+import { markdownTable } from './MarkdownTable';
+
+/**
+ * Building blocks for generating decks from many notes at once: a bounded worker pool, combined
+ * progress across the notes in flight and the summary note linking every deck.
+ */
+
+export const DEFAULT_BATCH_CONCURRENCY = 2;
+export const MAX_BATCH_CONCURRENCY = 8;
+
+export type BatchItemStatus = 'generated' | 'failed' | 'cancelled' | 'skipped';
+
+export interface BatchItemResult {
+  source: string; // vault path of the note
+  status: BatchItemStatus;
+  deckPath?: string;
+  slides?: number;
+  error?: string; // failed: the reason
+  warnings?: string[]; // ignored frontmatter values
+}
+
+export interface BatchSummaryOptions {
+  scope: string; // e.g. 'folder Projects' or 'tag #weekly'
+  startedAt: number;
+  finishedAt: number;
+}
+
+// Decks, explain reports and batch summaries written by earlier runs
+const GENERATED_NOTE_RE = / - (Slides|Explain|Slides Index)\.md$/i;
+
+export function isGeneratedNote(path: string): boolean {
+  return GENERATED_NOTE_RE.test(path);
+}
+
+export function coerceConcurrency(value: unknown, fallback = DEFAULT_BATCH_CONCURRENCY): number {
+  const n = typeof value === 'number' && Number.isFinite(value) ? Math.round(value) : fallback;
+  return Math.min(MAX_BATCH_CONCURRENCY, Math.max(1, n));
+}
+
+/**
+ * Runs `worker` over `items` with at most `limit` calls in flight, keeping the results in input
+ * order. Once `signal` is aborted no further items are started; their slots stay undefined.
+ */
+export async function runWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+  signal?: AbortSignal,
+): Promise<Array<R | undefined>> {
+  const results: Array<R | undefined> = new Array(items.length).fill(undefined);
+  let next = 0;
+  const lane = async (): Promise<void> => {
+    while (next < items.length && !signal?.aborted) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+  const lanes = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, lane);
+  await Promise.all(lanes);
+  return results;
+}
+
+/** How far one run is (0..1), judged from the events of its stream. */
+export function eventProgress(event: OrchestratorEvent): number | undefined {
+  switch (event.type) {
+    case 'analysis':
+      return 0.2;
+    case 'layout':
+      return 0.4;
+    case 'theme':
+      return 0.5;
+    case 'slide':
+      return 0.5 + (0.45 * (event.index + 1)) / Math.max(1, event.total);
+    case 'done':
+    case 'error':
+      return 1;
+  }
+}
+
+export interface BatchProgressSnapshot {
+  percent: number; // 0..100 over the whole batch
+  completed: number;
+  total: number;
+  active: string[]; // notes in flight
+}
+
+/** Combines the progress of every note of a batch into one percentage. */
+export class BatchProgress {
+  private readonly fractions = new Map<string, number>();
+  private completed = 0;
+
+  constructor(private readonly total: number) {}
+
+  start(source: string): void {
+    this.fractions.set(source, 0);
+  }
+
+  update(source: string, fraction: number): void {
+    if (this.fractions.has(source)) this.fractions.set(source, Math.min(1, Math.max(0, fraction)));
+  }
+
+  finish(source: string): void {
+    if (this.fractions.delete(source)) this.completed += 1;
+  }
+
+  snapshot(): BatchProgressSnapshot {
+    let inFlight = 0;
+    this.fractions.forEach((fraction) => (inFlight += fraction));
+    const done = this.total > 0 ? (this.completed + inFlight) / this.total : 1;
+    return {
+      percent: Math.round(done * 100),
+      completed: this.completed,
+      total: this.total,
+      active: Array.from(this.fractions.keys()),
+    };
+  }
+}
+
+/** The summary note of a batch: totals, then one row per note linking its deck. */
+export function renderBatchSummary(
+  results: BatchItemResult[],
+  options: BatchSummaryOptions,
+): string {
+  const generated = results.filter((r) => r.status === 'generated').length;
+  const seconds = ((options.finishedAt - options.startedAt) / 1000).toFixed(1);
+  const rows = results.map((r) => [
+    link(r.source),
+    r.deckPath ? link(r.deckPath) : '—',
+    r.slides !== undefined ? String(r.slides) : '—',
+    statusLabel(r),
+  ]);
+  const lines = [
+    `# Slides: ${options.scope}`,
+    '',
+    `Generated ${new Date(options.finishedAt).toISOString()}: ${generated} of ${results.length} ` +
+      `notes converted in ${seconds} s.`,
+    '',
+    markdownTable(['Note', 'Deck', 'Slides', 'Status'], rows),
+  ];
+  const warned = results.filter((r) => r.warnings && r.warnings.length > 0);
+  if (warned.length > 0) {
+    lines.push('', '## Frontmatter warnings', '');
+    warned.forEach((r) => lines.push(`- ${link(r.source)}: ${r.warnings?.join('; ')}`));
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+function statusLabel(result: BatchItemResult): string {
+  switch (result.status) {
+    case 'generated':
+      return '✓';
+    case 'failed':
+      return `Failed: ${result.error ?? 'unknown error'}`;
+    case 'cancelled':
+      return 'Cancelled';
+    case 'skipped':
+      return 'Not started';
+  }
+}
+
+function link(path: string): string {
+  const target = path.replace(/\.md$/i, '');
+  const name = target.slice(target.lastIndexOf('/') + 1);
+  return target === name ? `[[${target}]]` : `[[${target}|${name}]]`;
+}
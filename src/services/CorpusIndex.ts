@@ -0,0 +1,105 @@
+import { PhraseStats, documentPhrases } from './Keyphrases';
+import { isRecord } from '../utils/TypeGuards';
+
+/**
+ * Document frequencies of keyphrases across a corpus of notes (the vault or one folder of it),
+ * for TF-IDF scoring. Notes are added with a stamp such as their modification time, so
+ * refreshing the index only re-reads notes whose stamp changed. The index is a plain snapshot
+ * that can be stored and restored between sessions.
+ */
+
+export interface CorpusSnapshot {
+  version: number;
+  documents: Record<string, { stamp: number; phrases: string[] }>;
+}
+
+const SNAPSHOT_VERSION = 1;
+
+// Phrases recorded per note: its most frequent ones, which keeps large vaults affordable
+export const MAX_DOCUMENT_PHRASES = 200;
+
+interface IndexedDocument {
+  stamp: number;
+  phrases: string[];
+}
+
+let instances = 0;
+
+export class CorpusIndex implements PhraseStats {
+  private readonly docs = new Map<string, IndexedDocument>();
+  private readonly frequencies = new Map<string, number>();
+  private readonly instance = ++instances;
+  private changes = 0;
+
+  get documents(): number {
+    return this.docs.size;
+  }
+
+  get revision(): string {
+    return `${this.instance}.${this.changes}`;
+  }
+
+  documentFrequency(phrase: string): number {
+    return this.frequencies.get(phrase) ?? 0;
+  }
+
+  /** Whether `id` is indexed with this `stamp`, i.e. does not need to be read again. */
+  isCurrent(id: string, stamp: number): boolean {
+    return this.docs.get(id)?.stamp === stamp;
+  }
+
+  /** Indexes `text` as the document `id`, replacing an earlier version of it. */
+  add(id: string, stamp: number, text: string): void {
+    this.record(id, { stamp, phrases: documentPhrases(text, MAX_DOCUMENT_PHRASES) });
+  }
+
+  remove(id: string): boolean {
+    const doc = this.docs.get(id);
+    if (!doc) return false;
+    for (const phrase of doc.phrases) {
+      const left = (this.frequencies.get(phrase) ?? 0) - 1;
+      if (left > 0) this.frequencies.set(phrase, left);
+      else this.frequencies.delete(phrase);
+    }
+    this.docs.delete(id);
+    this.changes += 1;
+    return true;
+  }
+
+  /** Drops every document not in `ids`, e.g. notes deleted or moved out of the folder. */
+  retain(ids: Iterable<string>): number {
+    const keep = new Set(ids);
+    const gone = Array.from(this.docs.keys()).filter((id) => !keep.has(id));
+    gone.forEach((id) => this.remove(id));
+    return gone.length;
+  }
+
+  toJSON(): CorpusSnapshot {
+    const documents: CorpusSnapshot['documents'] = {};
+    this.docs.forEach((doc, id) => (documents[id] = { stamp: doc.stamp, phrases: doc.phrases }));
+    return { version: SNAPSHOT_VERSION, documents };
+  }
+
+  /** Restores a stored snapshot; anything unreadable or from another version gives an empty index. */
+  static fromJSON(json: unknown): CorpusIndex {
+    const index = new CorpusIndex();
+    const snapshot = json as Partial<CorpusSnapshot> | null;
+    if (snapshot?.version !== SNAPSHOT_VERSION || !isRecord(snapshot.documents)) return index;
+    for (const [id, doc] of Object.entries(snapshot.documents)) {
+      if (!isRecord(doc) || typeof doc.stamp !== 'number' || !Array.isArray(doc.phrases)) continue;
+      const phrases = doc.phrases.filter((p): p is string => typeof p === 'string');
+      index.record(id, { stamp: doc.stamp, phrases });
+    }
+    return index;
+  }
+
+  private record(id: string, doc: IndexedDocument): void {
+    this.remove(id);
+    const phrases = Array.from(new Set(doc.phrases));
+    for (const phrase of phrases) {
+      this.frequencies.set(phrase, (this.frequencies.get(phrase) ?? 0) + 1);
+    }
+    this.docs.set(id, { stamp: doc.stamp, phrases });
+    this.changes += 1;
+  }
+}
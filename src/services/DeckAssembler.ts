@@ -0,0 +1,106 @@
+import { ThemeDecision, getLuminance } from './StyleService';
+import { SlideTransition } from './GenerationSettings';
+import { FINGERPRINT_KEY, GenerationFingerprint, fingerprintFields } from './GenerationFingerprint';
+
+/**
+ * Turns composed slides into a Slides Extended deck file: a YAML frontmatter with the
+ * presentation options, then the slides separated by `---` lines.
+ */
+
+export type SlideSize = '16:9' | '4:3';
+
+export const SLIDE_SIZES: readonly SlideSize[] = ['16:9', '4:3'];
+
+export interface DeckOptions {
+  transition?: SlideTransition; // deck default; derived from the theme's animations when unset
+  size?: SlideSize; // default '16:9'
+  controls?: boolean; // navigation arrows, default true
+  progress?: boolean; // progress bar, default true
+  fingerprint?: GenerationFingerprint; // what produced the deck, written as a nested block
+}
+
+type FrontmatterScalar = string | number | boolean;
+
+// Scalars, plus one level of nested mappings
+export type DeckFrontmatter = Record<string, FrontmatterScalar | Record<string, FrontmatterScalar>>;
+
+export const SLIDE_SEPARATOR = '\n\n---\n\n';
+
+const SIZES: Record<SlideSize, { width: number; height: number }> = {
+  '16:9': { width: 1280, height: 720 },
+  '4:3': { width: 960, height: 720 },
+};
+
+const THEME_TRANSITIONS: Record<ThemeDecision['modifiers']['animations'], SlideTransition> = {
+  none: 'none',
+  subtle: 'fade',
+  expressive: 'convex',
+};
+
+/**
+ * Presentation options for a deck. Slides Extended only ships reveal.js base themes, so the
+ * theme decision picks a light or dark base from its background; its colors and fonts reach the
+ * slides through the `theme-*` classes of each slide.
+ */
+export function deckFrontmatter(theme: ThemeDecision, options: DeckOptions = {}): DeckFrontmatter {
+  const size = SIZES[options.size ?? '16:9'];
+  const frontmatter: DeckFrontmatter = {
+    theme: getLuminance(theme.colors.background) < 0.2 ? 'black' : 'white',
+    transition: options.transition ?? THEME_TRANSITIONS[theme.modifiers.animations],
+    width: size.width,
+    height: size.height,
+    margin: theme.modifiers.spacing === 'compact' ? 0.02 : 0.06,
+    controls: options.controls ?? true,
+    progress: options.progress ?? true,
+  };
+  if (options.fingerprint) frontmatter[FINGERPRINT_KEY] = fingerprintFields(options.fingerprint);
+  return frontmatter;
+}
+
+export function renderFrontmatter(frontmatter: DeckFrontmatter): string {
+  const lines = Object.entries(frontmatter).flatMap(([key, value]) =>
+    typeof value === 'object'
+      ? [`${key}:`, ...Object.entries(value).map(([k, v]) => `  ${k}: ${yamlScalar(v)}`)]
+      : [`${key}: ${yamlScalar(value)}`],
+  );
+  return `---\n${lines.join('\n')}\n---`;
+}
+
+/**
+ * Writes the deck file content. Composed slides put their annotation comments above a `---`
+ * line; in the deck that line becomes the separator before the slide, with the comments moved
+ * inside the slide so Slides Extended applies them to it. Slides already in deck form (taken
+ * from an earlier deck) are kept as they are.
+ */
+export function assembleDeck(
+  slides: string[],
+  theme: ThemeDecision,
+  options: DeckOptions = {},
+): string {
+  const body = slides
+    .map(toDeckPages)
+    .filter((s) => s.length > 0)
+    .join(SLIDE_SEPARATOR);
+  return `${renderFrontmatter(deckFrontmatter(theme, options))}\n\n${body}\n`;
+}
+
+// Annotation comments directly followed by the `---` line of a composed page
+const PAGE_HEADER_RE = /(^|\n\n)((?:<!--[^\n]*-->\n)+)---\n/g;
+
+function toDeckPages(slide: string): string {
+  let page = 0;
+  return slide
+    .trim()
+    .replace(PAGE_HEADER_RE, (_match, lead: string, comments: string) => {
+      page += 1;
+      return page === 1 ? `${lead}${comments}` : `${SLIDE_SEPARATOR}${comments}`;
+    })
+    .trim();
+}
+
+function yamlScalar(value: FrontmatterScalar): string {
+  if (typeof value !== 'string') return String(value);
+  return /^[\w.-]+$/.test(value) && !/^(true|false|null|yes|no|~|[\d.]+)$/i.test(value)
+    ? value
+    : JSON.stringify(value);
+}
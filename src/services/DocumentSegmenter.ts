@@ -0,0 +1,253 @@
+import { fenceMarker, parseHeading } from './MarkdownSections';
+import {
+  SlideDirective,
+  isDirectiveLine,
+  mergeDirectives,
+  parseDirective,
+} from './SlideDirectives';
+
+export type BlockKind =
+  | 'heading'
+  | 'paragraph'
+  | 'code'
+  | 'table'
+  | 'list'
+  | 'quote'
+  | 'break'
+  | 'directive';
+
+/**
+ * A top-level markdown block. Code, table, list and quote blocks are kept whole.
+ */
+export interface MarkdownBlock {
+  kind: BlockKind;
+  text: string;
+  level?: number; // headings only
+  directive?: SlideDirective; // directives only
+}
+
+/**
+ * Node of the heading hierarchy; the root has level 0 and no title.
+ */
+export interface SectionNode {
+  title?: string;
+  level: number;
+  blocks: MarkdownBlock[]; // blocks directly under this heading (excluding child sections)
+  children: SectionNode[];
+}
+
+/**
+ * Slide-sized unit of a document, ready for layout decisions.
+ */
+export interface DocumentSegment {
+  index: number;
+  heading?: { title: string; level: number };
+  path: string[]; // titles of enclosing sections, outermost first
+  blocks: MarkdownBlock[]; // content blocks; directive lines are not included
+  text: string;
+  directive?: SlideDirective; // merged inline directives of this segment
+}
+
+const BREAK_RE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const LIST_RE = /^\s*(?:[-*+]|\d+[.)])\s+/;
+const QUOTE_RE = /^\s*>/;
+const TABLE_RE = /^\s*\|/;
+const FRONTMATTER_RE = /^---\r?\n[\s\S]*?\r?\n---[ \t]*(?:\r?\n|$)/;
+const SLIDE_BOUNDARY_LEVEL = 2;
+
+/** Removes a leading YAML frontmatter block, if present. */
+export function stripFrontmatter(md: string): string {
+  return md.replace(FRONTMATTER_RE, '');
+}
+
+/**
+ * Splits markdown into top-level blocks, keeping fenced code, tables, lists and quotes atomic.
+ */
+export function parseBlocks(md: string): MarkdownBlock[] {
+  const lines = stripFrontmatter(md).split(/\r?\n/);
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    if (line.trim() === '') {
+      i += 1;
+      continue;
+    }
+    const heading = parseHeading(line);
+    if (heading) {
+      blocks.push({ kind: 'heading', text: line.trim(), level: heading.level });
+      i += 1;
+    } else if (BREAK_RE.test(line)) {
+      blocks.push({ kind: 'break', text: '---' });
+      i += 1;
+    } else if (isDirectiveLine(line)) {
+      blocks.push({ kind: 'directive', text: line.trim(), directive: parseDirective(line) ?? {} });
+      i += 1;
+    } else {
+      const end = blockEnd(lines, i);
+      blocks.push({ kind: blockKind(line), text: lines.slice(i, end).join('\n').trimEnd() });
+      i = end;
+    }
+  }
+  return blocks;
+}
+
+function blockKind(firstLine: string): BlockKind {
+  if (fenceMarker(firstLine)) return 'code';
+  if (TABLE_RE.test(firstLine)) return 'table';
+  if (LIST_RE.test(firstLine)) return 'list';
+  if (QUOTE_RE.test(firstLine)) return 'quote';
+  return 'paragraph';
+}
+
+/** Returns the index one past the last line of the block starting at `start`. */
+function blockEnd(lines: string[], start: number): number {
+  const kind = blockKind(lines[start]);
+  if (kind === 'code') return fenceEnd(lines, start);
+  if (kind === 'list') return listEnd(lines, start);
+  let i = start + 1;
+  while (i < lines.length && lines[i].trim() !== '') {
+    const line = lines[i];
+    if (kind === 'table' && !TABLE_RE.test(line)) break;
+    if (kind === 'quote' && !QUOTE_RE.test(line)) break;
+    if (kind === 'paragraph' && startsOtherBlock(line)) break;
+    i += 1;
+  }
+  return i;
+}
+
+function startsOtherBlock(line: string): boolean {
+  return (
+    parseHeading(line) !== null ||
+    fenceMarker(line) !== null ||
+    BREAK_RE.test(line) ||
+    isDirectiveLine(line) ||
+    LIST_RE.test(line) ||
+    QUOTE_RE.test(line) ||
+    TABLE_RE.test(line)
+  );
+}
+
+function fenceEnd(lines: string[], start: number): number {
+  const marker = fenceMarker(lines[start]);
+  for (let i = start + 1; i < lines.length; i += 1) {
+    if (fenceMarker(lines[i]) === marker) return i + 1;
+  }
+  return lines.length; // unterminated fence runs to the end
+}
+
+function listEnd(lines: string[], start: number): number {
+  let i = start + 1;
+  while (i < lines.length) {
+    const line = lines[i];
+    if (line.trim() === '') {
+      // blank lines stay inside the list only when the list continues after them
+      let next = i + 1;
+      while (next < lines.length && lines[next].trim() === '') next += 1;
+      if (next < lines.length && (LIST_RE.test(lines[next]) || /^\s+\S/.test(lines[next]))) {
+        i = next;
+        continue;
+      }
+      return i;
+    }
+    if (!LIST_RE.test(line) && !/^\s+\S/.test(line)) return i;
+    i += 1;
+  }
+  return i;
+}
+
+/**
+ * Builds the heading hierarchy of a document from its blocks.
+ */
+export function buildSectionTree(blocks: MarkdownBlock[]): SectionNode {
+  const root: SectionNode = { level: 0, blocks: [], children: [] };
+  const stack: SectionNode[] = [root];
+  for (const block of blocks) {
+    if (block.kind !== 'heading') {
+      stack[stack.length - 1].blocks.push(block);
+      continue;
+    }
+    const level = block.level ?? 1;
+    while (stack.length > 1 && stack[stack.length - 1].level >= level) stack.pop();
+    const node: SectionNode = {
+      title: parseHeading(block.text)?.title ?? block.text,
+      level,
+      blocks: [block],
+      children: [],
+    };
+    stack[stack.length - 1].children.push(node);
+    stack.push(node);
+  }
+  return root;
+}
+
+/**
+ * Splits markdown into slide segments. H1/H2 headings and explicit `---` breaks start a new
+ * segment; deeper headings stay with their parent. A document without any boundary falls
+ * back to one segment per block (headings and directives stay attached to the block that
+ * follows). Inline directives apply to the segment they appear in.
+ */
+export function segmentDocument(md: string): DocumentSegment[] {
+  const blocks = parseBlocks(md);
+  const hasBoundary = blocks.some(
+    (b) => b.kind === 'break' || (b.kind === 'heading' && (b.level ?? 1) <= SLIDE_BOUNDARY_LEVEL),
+  );
+  const groups = hasBoundary ? groupBySections(buildSectionTree(blocks)) : groupByBlocks(blocks);
+  return groups
+    .map((g) => ({ ...g, content: g.blocks.filter((b) => b.kind !== 'directive') }))
+    .filter((g) => g.content.length > 0)
+    .map((g, index) => {
+      const segment: DocumentSegment = {
+        index,
+        heading: g.heading,
+        path: g.path,
+        blocks: g.content,
+        text: g.content.map((b) => b.text).join('\n\n'),
+      };
+      const directive = mergeDirectives(
+        g.blocks.map((b) => b.directive).filter((d): d is SlideDirective => d !== undefined),
+      );
+      if (directive) segment.directive = directive;
+      return segment;
+    });
+}
+
+type SegmentGroup = Omit<DocumentSegment, 'index' | 'text'>;
+
+function groupBySections(root: SectionNode): SegmentGroup[] {
+  const groups: SegmentGroup[] = [];
+  let current: SegmentGroup = { path: [], blocks: [] };
+  const walk = (node: SectionNode, path: string[]): void => {
+    if (node.title !== undefined && node.level <= SLIDE_BOUNDARY_LEVEL) {
+      groups.push(current);
+      current = { heading: { title: node.title, level: node.level }, path, blocks: [] };
+    }
+    for (const block of node.blocks) {
+      if (block.kind === 'break') {
+        groups.push(current);
+        current = { path: node.title ? [...path, node.title] : path, blocks: [] };
+      } else {
+        current.blocks.push(block);
+      }
+    }
+    const childPath = node.title !== undefined ? [...path, node.title] : path;
+    node.children.forEach((child) => walk(child, childPath));
+  };
+  walk(root, []);
+  groups.push(current);
+  return groups;
+}
+
+function groupByBlocks(blocks: MarkdownBlock[]): SegmentGroup[] {
+  const groups: SegmentGroup[] = [];
+  let pending: MarkdownBlock[] = [];
+  for (const block of blocks) {
+    pending.push(block);
+    if (block.kind !== 'heading' && block.kind !== 'directive') {
+      groups.push({ path: [], blocks: pending });
+      pending = [];
+    }
+  }
+  if (pending.length > 0) groups.push({ path: [], blocks: pending });
+  return groups;
+}
@@ -0,0 +1,6 @@
+/**
+ * Version of the slide engine. Templates declare the engine range they work with, and deck
+ * fingerprints record it. Kept apart from TemplateService so reading it does not pull the
+ * template engine and its schema validation into the plugin bundle.
+ */
+export const ENGINE_VERSION = '1.0.0';
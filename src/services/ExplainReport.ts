@@ -0,0 +1,180 @@
+import type { OrchestratorOutput } from './PresentationOrchestrator';
+import { segmentLabel } from './SlideBudget';
+import { markdownTable } from './MarkdownTable';
+import { AnalysisDimension, DimensionConfidence, LOW_CONFIDENCE } from './AnalysisTypes';
+
+/**
+ * Explain mode: a markdown note describing why a deck looks the way it does — the content
+ * analysis, the theme choice, the layout of every content slide, what produced the deck and
+ * where the time went.
+ */
+
+export interface ExplainOptions {
+  deckPath?: string; // linked from the report
+  sourcePath?: string;
+}
+
+export function renderExplainReport(
+  output: OrchestratorOutput,
+  options: ExplainOptions = {},
+): string {
+  const sections = [
+    header(output, options),
+    analysisSection(output),
+    themeSection(output),
+    slidesSection(output),
+    foldingSection(output),
+    fingerprintSection(output),
+    timingSection(output),
+  ];
+  return `${sections.filter((s) => s.length > 0).join('\n\n')}\n`;
+}
+
+function header(output: OrchestratorOutput, options: ExplainOptions): string {
+  const lines = ['# Smart Slides report', ''];
+  if (options.deckPath) lines.push(`- Deck: [[${options.deckPath}]]`);
+  if (options.sourcePath) lines.push(`- Source: [[${options.sourcePath}]]`);
+  lines.push(`- Generated: ${new Date(output.metrics.startedAt).toISOString()}`);
+  const { parameters, metrics } = output;
+  lines.push(
+    `- Parameters: max slides ${parameters.maxSlides ?? 'unlimited'}, layout strategy ` +
+      `${parameters.layoutStrategy}, transition ${parameters.transition}, language ` +
+      `${parameters.language ?? 'auto'}`,
+  );
+  if (metrics.overrides?.length) {
+    lines.push(`- Set by the note's frontmatter: ${metrics.overrides.join(', ')}`);
+  }
+  return lines.join('\n');
+}
+
+function analysisSection(output: OrchestratorOutput): string {
+  const a = output.analysis;
+  const topics = a.keyTopics.map((t) => `${t.term} (${t.count})`).join(', ') || '—';
+  const row = (label: string, value: string, dimension?: AnalysisDimension): string[] =>
+    dimension
+      ? [label, value, ...confidenceCells(a.confidence[dimension])]
+      : [label, value, '', ''];
+  return [
+    '## Content analysis',
+    '',
+    markdownTable(
+      ['Property', 'Value', 'Confidence', 'Evidence'],
+      [
+        row('Language', a.language, 'language'),
+        row('Audience', a.audience, 'audience'),
+        row('Domain', a.domain, 'domain'),
+        row('Purpose', a.purpose, 'purpose'),
+        row('Tone', a.tone, 'tone'),
+        row('Complexity', a.complexity, 'complexity'),
+        row('Formality', `${a.formalityScore}/10`),
+        row('Suggested slides', String(a.suggestedSlideCount)),
+        row('Key topics', topics),
+      ],
+    ),
+  ].join('\n');
+}
+
+// Low scores are flagged: the theme choice ignores those fields
+function confidenceCells(confidence: DimensionConfidence): string[] {
+  const percent = `${Math.round(confidence.score * 100)}%`;
+  return [
+    confidence.score < LOW_CONFIDENCE ? `${percent} (low)` : percent,
+    confidence.evidence.join(', ') || '—',
+  ];
+}
+
+function themeSection(output: OrchestratorOutput): string {
+  const { theme } = output;
+  const m = theme.modifiers;
+  return [
+    '## Theme',
+    '',
+    `**${theme.name}**: ${theme.rationale}`,
+    '',
+    `Spacing ${m.spacing}, emphasis ${m.emphasis}, animations ${m.animations}; ` +
+      `fonts ${theme.fonts.heading} / ${theme.fonts.body}; primary color ${theme.colors.primary}.`,
+  ].join('\n');
+}
+
+function slidesSection(output: OrchestratorOutput): string {
+  const rows = output.layoutDecisions.map((d, i) => {
+    const segment = output.segments[i];
+    const params = [
+      d.params.variant,
+      d.params.columns && d.params.columns > 1 ? `${d.params.columns} columns` : undefined,
+      d.params.transition ? `transition ${d.params.transition}` : undefined,
+      d.params.density,
+    ].filter(Boolean);
+    const section = output.sections[i];
+    return [
+      String(i + 1),
+      segment ? segmentLabel(segment) : '—',
+      section ? `${section.complexity}, ${section.tone}` : '—',
+      params.length > 0 ? `${d.type} (${params.join(', ')})` : d.type,
+      d.rationale,
+      d.score.toFixed(2),
+    ];
+  });
+  const structural = output.slides.length - output.layoutDecisions.length;
+  const note =
+    structural > 0 ? `\n\nPlus ${structural} structural slide(s) (title, agenda, closing).` : '';
+  return [
+    '## Slides',
+    '',
+    markdownTable(['#', 'Section', 'Content', 'Layout', 'Rationale', 'Score'], rows) + note,
+  ].join('\n');
+}
+
+function foldingSection(output: OrchestratorOutput): string {
+  const folding = output.metrics.folding;
+  if (!folding) return '';
+  const lines = [
+    '## Merged to fit max slides',
+    '',
+    `${folding.segments} sections had to fit into ${folding.limit} slides.`,
+    '',
+    ...folding.merges.map((m) => `- **${m.into}** absorbed ${m.folded.join(', ')}`),
+  ];
+  if (folding.condensed.length > 0) lines.push(`- Summarized: ${folding.condensed.join(', ')}`);
+  if (folding.dropped.length > 0) lines.push(`- Left out: ${folding.dropped.join(', ')}`);
+  return lines.join('\n');
+}
+
+function fingerprintSection(output: OrchestratorOutput): string {
+  const { fingerprint, metrics } = output;
+  const lines = [
+    '## Fingerprint',
+    '',
+    `- Engine ${fingerprint.engine}, settings ${fingerprint.settings}, ` +
+      `templates ${fingerprint.templates}`,
+    `- Adapters: ${fingerprint.adapters.join(', ') || 'none'}`,
+    `- Seed: ${fingerprint.seed}; set \`seed: ${fingerprint.seed}\` in the note's ` +
+      'smart-slides frontmatter to regenerate this deck identically',
+  ];
+  const changes = metrics.fingerprintChanges;
+  if (changes) {
+    lines.push(
+      '',
+      changes.length > 0
+        ? `Since the previous deck: ${changes.join('; ')}.`
+        : 'Generated the same way as the previous deck.',
+    );
+  }
+  return lines.join('\n');
+}
+
+function timingSection(output: OrchestratorOutput): string {
+  const { metrics } = output;
+  const rows = Object.entries(metrics.steps).map(([step, ms]) => [step, ms.toFixed(1)]);
+  if (metrics.durationMs !== undefined) rows.push(['total', metrics.durationMs.toFixed(1)]);
+  const lines = ['## Timings', '', markdownTable(['Step', 'ms'], rows)];
+  const reuse = metrics.segments;
+  if (reuse) {
+    lines.push(
+      '',
+      `Slides: ${reuse.composed} composed, ${reuse.cached} from cache, ` +
+        `${reuse.preserved} kept from the previous deck.`,
+    );
+  }
+  return lines.join('\n');
+}
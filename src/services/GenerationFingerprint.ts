@@ -0,0 +1,94 @@
+import { ENGINE_VERSION } from './EngineVersion';
+import { MAX_SEED, coerceSeed } from './GenerationSettings';
+import { hashNumber, hashString, stableStringify } from '../utils/Hash';
+
+/**
+ * Records what produced a deck: the engine, the settings that shaped it, the template versions,
+ * the adapters it called and the seed passed to them. Written to the deck frontmatter, so two
+ * decks can be told apart and a deck can be regenerated with the same seed.
+ */
+
+export interface GenerationFingerprint {
+  engine: string;
+  settings: string; // hash of the parameters that shape the deck
+  templates: string; // hash of the template ids and versions
+  adapters: string[]; // `id@version` of each adapter the run called; empty for heuristic runs
+  seed: number;
+}
+
+export const FINGERPRINT_KEY = 'fingerprint';
+
+/** Without an explicit seed a run is seeded from its source, so the same note gets the same seed. */
+export function defaultSeed(source: string): number {
+  return hashNumber(source) % MAX_SEED;
+}
+
+export function createFingerprint(parts: {
+  settings: Record<string, unknown>;
+  templates: Record<string, string>;
+  adapters?: string[];
+  seed: number;
+}): GenerationFingerprint {
+  return {
+    engine: ENGINE_VERSION,
+    settings: hashString(stableStringify(parts.settings)),
+    templates: hashString(stableStringify(parts.templates)),
+    adapters: Array.from(new Set(parts.adapters ?? [])).sort(),
+    seed: parts.seed,
+  };
+}
+
+/** Frontmatter fields of a fingerprint; adapters are listed comma separated, or `none`. */
+export function fingerprintFields(
+  fingerprint: GenerationFingerprint,
+): Record<string, string | number> {
+  return {
+    engine: fingerprint.engine,
+    settings: fingerprint.settings,
+    templates: fingerprint.templates,
+    adapters: fingerprint.adapters.length > 0 ? fingerprint.adapters.join(', ') : 'none',
+    seed: fingerprint.seed,
+  };
+}
+
+/** Reads the fingerprint block back from a written deck, if it has one. */
+export function readFingerprint(deck: string): GenerationFingerprint | undefined {
+  const frontmatter = /^---\r?\n([\s\S]*?)\r?\n---/.exec(deck)?.[1];
+  const block = frontmatter?.split(new RegExp(`^${FINGERPRINT_KEY}:[ \\t]*\\r?\\n`, 'm'))[1];
+  if (!block) return undefined;
+  const fields: Record<string, string> = {};
+  for (const line of block.split(/\r?\n/)) {
+    const m = /^\s+(\w+):\s*"?(.*?)"?\s*$/.exec(line);
+    if (!m) break;
+    fields[m[1]] = m[2];
+  }
+  const seed = coerceSeed(fields.seed);
+  if (!fields.engine || !fields.settings || !fields.templates || seed === undefined) {
+    return undefined;
+  }
+  return {
+    engine: fields.engine,
+    settings: fields.settings,
+    templates: fields.templates,
+    adapters: fields.adapters && fields.adapters !== 'none' ? fields.adapters.split(/,\s*/) : [],
+    seed,
+  };
+}
+
+/** Human-readable differences between the fingerprints of two runs; empty when they match. */
+export function compareFingerprints(
+  previous: GenerationFingerprint,
+  current: GenerationFingerprint,
+): string[] {
+  const changes: string[] = [];
+  if (previous.engine !== current.engine) {
+    changes.push(`engine ${previous.engine} → ${current.engine}`);
+  }
+  if (previous.settings !== current.settings) changes.push('generation settings changed');
+  if (previous.templates !== current.templates) changes.push('templates changed');
+  const before = previous.adapters.join(', ') || 'none';
+  const after = current.adapters.join(', ') || 'none';
+  if (before !== after) changes.push(`adapters ${before} → ${after}`);
+  if (previous.seed !== current.seed) changes.push(`seed ${previous.seed} → ${current.seed}`);
+  return changes;
+}
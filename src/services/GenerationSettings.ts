@@ -0,0 +1,219 @@
+/**
+ * Generation parameters shared by the plugin settings and per-note `smart-slides:` frontmatter,
+ * with the coercion rules both of them go through.
+ */
+
+import { OverflowMode, SLIDE_TRANSITIONS, SlideTransition } from './SlideTypes';
+import { isRecord } from '../utils/TypeGuards';
+
+export { SLIDE_TRANSITIONS };
+export type { SlideTransition };
+
+export type ThemeChoice = 'business' | 'technical' | 'academic' | 'creative';
+
+/**
+ * - auto: layout rules plus visual flow optimization (alternating sides)
+ * - static: layout rules only, every slide keeps the variant its rule picked
+ * - minimal: title slides are detected, everything else uses the default layout
+ */
+export type LayoutStrategy = 'auto' | 'static' | 'minimal';
+
+export const THEME_CHOICES: readonly ThemeChoice[] = [
+  'business',
+  'technical',
+  'academic',
+  'creative',
+];
+export const LAYOUT_STRATEGIES: readonly LayoutStrategy[] = ['auto', 'static', 'minimal'];
+
+export const OVERFLOW_MODES: readonly OverflowMode[] = ['notes', 'split'];
+
+export const MIN_SLIDES = 5;
+export const MAX_SLIDES = 200;
+export const MAX_SEED = 2 ** 31 - 1;
+
+/** 'auto' or a BCP 47 style tag such as `en` or `pl-PL`. */
+const LANGUAGE_RE = /^(auto|[a-z]{2,3}(-[A-Za-z0-9]{2,8})*)$/;
+
+export interface GenerationParameters {
+  theme: ThemeChoice;
+  maxSlides: number;
+  layoutStrategy: LayoutStrategy;
+  transition: SlideTransition;
+  language: string;
+  titleSlide: boolean;
+  agendaSlide: boolean;
+  closingSlide: boolean;
+  explain: boolean; // write a report note explaining the analysis, theme and layouts
+}
+
+/**
+ * Parameters set by a note. `outputPath` and `seed` have no global counterpart: without them the
+ * deck is written next to the note and the run is seeded from the note's content.
+ */
+export interface NoteOverrides extends Partial<GenerationParameters> {
+  outputPath?: string;
+  seed?: number; // regenerates a deck identically, e.g. the seed from its fingerprint
+}
+
+export interface ParsedNoteOverrides {
+  overrides: NoteOverrides;
+  warnings: string[]; // one per ignored or adjusted value
+}
+
+export function coerceMaxSlides(value: unknown, fallback: number): number {
+  const n = typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+  return Math.min(MAX_SLIDES, Math.max(MIN_SLIDES, Math.round(n)));
+}
+
+export function coerceChoice<T extends string>(
+  value: unknown,
+  allowed: readonly T[],
+  fallback: T,
+): T {
+  return allowed.includes(value as T) ? (value as T) : fallback;
+}
+
+/** A whole number in 0..MAX_SEED, also accepted as a numeric string. */
+export function coerceSeed(value: unknown): number | undefined {
+  const n = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof n === 'number' && Number.isInteger(n) && n >= 0 && n <= MAX_SEED ? n : undefined;
+}
+
+export function coerceLanguage(value: unknown, fallback: string): string {
+  return typeof value === 'string' && LANGUAGE_RE.test(value.trim()) ? value.trim() : fallback;
+}
+
+export const FRONTMATTER_KEY = 'smart-slides';
+
+// Frontmatter keys are matched case-insensitively, ignoring '-' and '_'
+const KEY_ALIASES: Record<string, keyof NoteOverrides> = {
+  theme: 'theme',
+  maxslides: 'maxSlides',
+  layout: 'layoutStrategy',
+  layoutstrategy: 'layoutStrategy',
+  transition: 'transition',
+  transitions: 'transition',
+  language: 'language',
+  lang: 'language',
+  output: 'outputPath',
+  outputpath: 'outputPath',
+  titleslide: 'titleSlide',
+  agenda: 'agendaSlide',
+  agendaslide: 'agendaSlide',
+  closing: 'closingSlide',
+  closingslide: 'closingSlide',
+  explain: 'explain',
+  seed: 'seed',
+};
+
+/**
+ * Reads the `smart-slides:` block of a note's parsed frontmatter. Values are validated with the
+ * same rules as the plugin settings; invalid ones are dropped (so the global setting applies)
+ * and reported in `warnings`.
+ */
+export function parseNoteOverrides(frontmatter: unknown): ParsedNoteOverrides {
+  const block = isRecord(frontmatter) ? frontmatter[FRONTMATTER_KEY] : undefined;
+  const result: ParsedNoteOverrides = { overrides: {}, warnings: [] };
+  if (block === undefined || block === null) return result;
+  if (!isRecord(block)) {
+    result.warnings.push(`${FRONTMATTER_KEY} must be a mapping of options`);
+    return result;
+  }
+  for (const [rawKey, value] of Object.entries(block)) {
+    const key = KEY_ALIASES[rawKey.toLowerCase().replace(/[-_]/g, '')];
+    if (!key) {
+      result.warnings.push(`Unknown option "${rawKey}"`);
+      continue;
+    }
+    applyOverride(result, key, value);
+  }
+  return result;
+}
+
+const CHOICES = {
+  theme: THEME_CHOICES,
+  layoutStrategy: LAYOUT_STRATEGIES,
+  transition: SLIDE_TRANSITIONS,
+};
+
+function applyOverride(
+  result: ParsedNoteOverrides,
+  key: keyof NoteOverrides,
+  value: unknown,
+): void {
+  const { overrides, warnings } = result;
+  const invalid = (): void => {
+    warnings.push(`Ignoring invalid ${key}: ${JSON.stringify(value)}`);
+  };
+  switch (key) {
+    case 'maxSlides': {
+      const n = typeof value === 'string' ? Number(value) : value;
+      if (typeof n !== 'number' || !Number.isFinite(n)) return invalid();
+      overrides.maxSlides = coerceMaxSlides(n, n);
+      if (overrides.maxSlides !== n) warnings.push(`maxSlides adjusted to ${overrides.maxSlides}`);
+      return;
+    }
+    case 'theme':
+    case 'layoutStrategy':
+    case 'transition': {
+      const allowed = CHOICES[key] as readonly string[];
+      const normalized = typeof value === 'string' ? value.trim().toLowerCase() : value;
+      if (!allowed.includes(normalized as string)) return invalid();
+      (overrides as Record<string, unknown>)[key] = normalized;
+      return;
+    }
+    case 'language': {
+      const language = coerceLanguage(value, '');
+      if (!language) return invalid();
+      overrides.language = language;
+      return;
+    }
+    case 'outputPath':
+      if (typeof value !== 'string' || value.trim() === '') return invalid();
+      overrides.outputPath = value.trim();
+      return;
+    case 'seed': {
+      const seed = coerceSeed(value);
+      if (seed === undefined) return invalid();
+      overrides.seed = seed;
+      return;
+    }
+    case 'titleSlide':
+    case 'agendaSlide':
+    case 'closingSlide':
+    case 'explain': {
+      const flag = coerceFlag(value);
+      if (flag === undefined) return invalid();
+      overrides[key] = flag;
+      return;
+    }
+  }
+}
+
+// YAML booleans, plus the yes/no and on/off strings people write in frontmatter
+function coerceFlag(value: unknown): boolean | undefined {
+  if (typeof value === 'boolean') return value;
+  const text = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  if (['true', 'yes', 'on'].includes(text)) return true;
+  if (['false', 'no', 'off'].includes(text)) return false;
+  return undefined;
+}
+
+/** Applies note overrides on top of the global parameters. */
+export function resolveGenerationParameters(
+  global: GenerationParameters,
+  overrides: NoteOverrides,
+): GenerationParameters {
+  return {
+    theme: overrides.theme ?? global.theme,
+    maxSlides: overrides.maxSlides ?? global.maxSlides,
+    layoutStrategy: overrides.layoutStrategy ?? global.layoutStrategy,
+    transition: overrides.transition ?? global.transition,
+    language: overrides.language ?? global.language,
+    titleSlide: overrides.titleSlide ?? global.titleSlide,
+    agendaSlide: overrides.agendaSlide ?? global.agendaSlide,
+    closingSlide: overrides.closingSlide ?? global.closingSlide,
+    explain: overrides.explain ?? global.explain,
+  };
+}
@@ -0,0 +1,130 @@
+import type { KeyTopic } from './AnalysisTypes';
+import { AnalyzerLexicon, LEXICONS, detectLanguage } from './AnalyzerLexicons';
+
+/**
+ * Keyphrases: runs of up to three content words, scored by TF-IDF — how often the note uses a
+ * phrase, weighted by how rare the phrase is across a corpus of notes. Stopwords, punctuation,
+ * line breaks and short words end a run, so "machine learning" is a candidate and "learning
+ * of the" is not. Without a corpus every phrase counts as rare and frequency alone decides.
+ */
+
+/** How many notes of a corpus use a phrase. */
+export interface PhraseStats {
+  readonly documents: number;
+  readonly revision: string; // changes whenever the statistics change, for caches
+  documentFrequency(phrase: string): number;
+}
+
+export const MAX_PHRASE_WORDS = 3;
+
+// Longer phrases are rarer than the words they are made of; a phrase used once is no topic
+const MIN_PHRASE_COUNT = 2;
+
+/** Every candidate phrase of `text` with its number of occurrences, in order of appearance. */
+export function candidatePhrases(text: string, lexicon: AnalyzerLexicon): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const run of contentRuns(text, lexicon)) {
+    for (let n = 1; n <= MAX_PHRASE_WORDS; n++) {
+      for (let i = 0; i + n <= run.length; i++) {
+        const words = run.slice(i, i + n);
+        if (new Set(words).size < n) continue; // `api api` is no phrase
+        const phrase = words.join(' ');
+        counts.set(phrase, (counts.get(phrase) ?? 0) + 1);
+      }
+    }
+  }
+  return counts;
+}
+
+// Runs of consecutive content words; `rate-limiting` reads as `rate limiting`
+function contentRuns(text: string, lexicon: AnalyzerLexicon): string[][] {
+  const runs: string[][] = [];
+  const clauses = text
+    .toLowerCase()
+    .replace(/(?<=[\p{L}\p{N}])['’-](?=[\p{L}\p{N}])/gu, ' ')
+    .split(/[^\p{L}\p{N} \t]+/u);
+  for (const clause of clauses) {
+    let run: string[] = [];
+    for (const word of clause.split(/[ \t]+/)) {
+      if (isContentWord(word, lexicon)) {
+        run.push(word);
+        continue;
+      }
+      if (run.length > 0) runs.push(run);
+      run = [];
+    }
+    if (run.length > 0) runs.push(run);
+  }
+  return runs;
+}
+
+function isContentWord(word: string, lexicon: AnalyzerLexicon): boolean {
+  return word.length >= 3 && !lexicon.stopwords.has(word) && !/^\p{N}+$/u.test(word);
+}
+
+/**
+ * The `topN` keyphrases of `text`. A phrase scores its count times its number of words times
+ * its inverse document frequency in `stats`; a phrase overlapping a better one is skipped, so
+ * "machine learning" does not come back as "machine", "learning" or "learning models".
+ */
+export function extractKeyphrases(
+  text: string,
+  lexicon: AnalyzerLexicon,
+  stats?: PhraseStats,
+  topN = 7,
+): KeyTopic[] {
+  const scored = Array.from(candidatePhrases(text, lexicon))
+    .filter(([phrase, count]) => count >= MIN_PHRASE_COUNT || !phrase.includes(' '))
+    .map(([term, count]) => ({
+      term,
+      count,
+      score: round(count * wordCount(term) * inverseFrequency(term, stats)),
+    }))
+    .sort((a, b) => b.score - a.score || b.count - a.count);
+  const picked: KeyTopic[] = [];
+  for (const topic of scored) {
+    if (picked.length >= topN) break;
+    if (!picked.some((p) => overlaps(p.term, topic.term))) picked.push(topic);
+  }
+  return picked;
+}
+
+/** Smoothed IDF: 1 for a phrase every note uses, growing as fewer notes use it. */
+export function inverseFrequency(phrase: string, stats?: PhraseStats): number {
+  if (!stats || stats.documents === 0) return 1;
+  return Math.log((1 + stats.documents) / (1 + stats.documentFrequency(phrase))) + 1;
+}
+
+/**
+ * The distinct phrases a corpus records for one note: its `limit` most frequent candidates,
+ * read with the stopwords of the note's language.
+ */
+export function documentPhrases(text: string, limit: number): string[] {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  const lexicon = LEXICONS[detectLanguage(words)];
+  return Array.from(candidatePhrases(text, lexicon))
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([phrase]) => phrase);
+}
+
+/** The key topics `text` mentions, matched as whole words. */
+export function topicsIn(text: string, topics: readonly KeyTopic[]): KeyTopic[] {
+  const words = ` ${(text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).join(' ')} `;
+  return topics.filter((t) => words.includes(` ${t.term} `));
+}
+
+// One phrase inside the other, or chained: `machine learning` and `learning models`
+function overlaps(a: string, b: string): boolean {
+  if (` ${a} `.includes(` ${b} `) || ` ${b} `.includes(` ${a} `)) return true;
+  const [aWords, bWords] = [a.split(' '), b.split(' ')];
+  return aWords[aWords.length - 1] === bWords[0] || bWords[bWords.length - 1] === aWords[0];
+}
+
+function wordCount(phrase: string): number {
+  return phrase.split(' ').length;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
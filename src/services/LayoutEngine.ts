@@ -1,10 +1,9 @@
-export type LayoutType = 'title' | 'comparison' | 'quote' | 'list' | 'image' | 'default';
+import { DocumentSegment, MarkdownBlock, parseBlocks } from './DocumentSegmenter';
+import type { SectionAnalysis } from './AnalyzerService';
+import { DimensionConfidence, LOW_CONFIDENCE } from './AnalysisTypes';
+import type { LayoutParams, LayoutType, SlideDensity } from './SlideTypes';
 
-export interface LayoutParams {
-  columns?: number;
-  variant?: 'left' | 'right' | 'center' | 'full';
-  images?: string[];
-}
+export type { LayoutParams, LayoutType, SlideDensity };
 
 export interface LayoutDecision {
   type: LayoutType;
@@ -16,8 +15,12 @@ export interface LayoutDecision {
 export interface LayoutRule {
   id: string;
   priority: number; // higher wins
-  matches: (text: string) => boolean;
-  decide: (text: string) => Omit<LayoutDecision, 'score'> & { score?: number };
+  matches: (text: string, segment?: DocumentSegment, section?: SectionAnalysis) => boolean;
+  decide: (
+    text: string,
+    segment?: DocumentSegment,
+    section?: SectionAnalysis,
+  ) => Omit<LayoutDecision, 'score'> & { score?: number };
 }
 
 /**
@@ -35,24 +38,35 @@ export class LayoutEngine {
     this.rules.sort((a, b) => b.priority - a.priority);
   }
 
-  decide(text: string): LayoutDecision {
+  /**
+   * Picks a layout for a slide. When the structured `segment` is available, rules can use
+   * its blocks and heading instead of re-parsing the text; the `section` analysis lets them
+   * (and the density of text slides) follow the section's complexity and tone.
+   */
+  decide(text: string, segment?: DocumentSegment, section?: SectionAnalysis): LayoutDecision {
     for (const rule of this.rules) {
-      if (rule.matches(text)) {
-        const dec = rule.decide(text);
-        return {
-          type: dec.type,
-          params: dec.params ?? {},
-          rationale: dec.rationale ?? rule.id,
-          score: dec.score ?? rule.priority,
-        };
+      if (rule.matches(text, segment, section)) {
+        const dec = rule.decide(text, segment, section);
+        return withDensity(
+          {
+            type: dec.type,
+            params: dec.params ?? {},
+            rationale: dec.rationale ?? rule.id,
+            score: dec.score ?? rule.priority,
+          },
+          section,
+        );
       }
     }
-    return {
-      type: 'default',
-      params: { columns: 1, variant: 'center' },
-      rationale: 'fallback-default',
-      score: 0,
-    };
+    return withDensity(
+      {
+        type: 'default',
+        params: { columns: 1, variant: 'center' },
+        rationale: 'fallback-default',
+        score: 0,
+      },
+      section,
+    );
   }
 
   decideBatch(texts: string[]): LayoutDecision[] {
@@ -60,11 +74,42 @@ export class LayoutEngine {
     return texts.map((t) => this.decide(t));
   }
 
+  decideSegments(segments: DocumentSegment[]): LayoutDecision[] {
+    return segments.map((s) => this.decide(s.text, s));
+  }
+
   optimizeFlow(decisions: LayoutDecision[]): LayoutDecision[] {
     return optimizeVisualFlow(decisions);
   }
 }
 
+// -------- Section density --------
+
+/**
+ * How much text a slide of this section should carry: dense for advanced material such as a
+ * technical appendix, sparse for beginner content and business or casual prose such as an
+ * executive summary. Only readings backed by cues count: a short section looks beginner-level
+ * by word length alone, which says little about how much a slide of it can hold.
+ */
+export function densityFor(section: SectionAnalysis): SlideDensity | undefined {
+  const { complexity, tone } = section.confidence;
+  if (assured(complexity) && section.complexity === 'advanced') return 'dense';
+  if (assured(complexity) && section.complexity === 'beginner') return 'sparse';
+  const plain = section.tone === 'business' || section.tone === 'casual';
+  return plain && assured(tone) ? 'sparse' : undefined;
+}
+
+function assured(confidence: DimensionConfidence): boolean {
+  return confidence.evidence.length > 0 && confidence.score >= LOW_CONFIDENCE;
+}
+
+// Only text slides (lists and plain text) change with density
+function withDensity(decision: LayoutDecision, section?: SectionAnalysis): LayoutDecision {
+  const density = section && densityFor(section);
+  if (!density || (decision.type !== 'list' && decision.type !== 'default')) return decision;
+  return { ...decision, params: { ...decision.params, density } };
+}
+
 // -------- Default rules (3.2.2–3.2.7) --------
 
 function detectListItems(text: string): number {
@@ -73,6 +118,12 @@ function detectListItems(text: string): number {
   return bulletCount + numberedCount;
 }
 
+// Dense sections go to two columns sooner
+function listColumns(items: number, section?: SectionAnalysis): number {
+  const perColumn = section && densityFor(section) === 'dense' ? 5 : 8;
+  return items > perColumn ? 2 : 1;
+}
+
 function extractImageUrls(text: string): string[] {
   const urls: string[] = [];
   const mdImg = /!\[[^\]]*\]\(([^)]+)\)/g;
@@ -87,29 +138,108 @@ function extractImageUrls(text: string): string[] {
   return urls;
 }
 
+// Content blocks of a slide: the segment's own when available, else parsed from its text
+function bodyBlocks(text: string, segment?: DocumentSegment): MarkdownBlock[] {
+  return (segment?.blocks ?? parseBlocks(text)).filter((b) => b.kind !== 'heading');
+}
+
+const PROS_CONS_RE = /^\s*(?:[-*+]\s+)?(?:\*\*)?(pros|cons)(?:\*\*)?\s*[:-]/i;
+const QUOTATION_RE = /^\s*["“][^"“”]+["”](?:\s*[—–-]+\s*[^"“”\n]+)?\s*$/;
+
+export type ComparisonSide = 'pros' | 'cons';
+
+/**
+ * Splits a line opened by a `Pros:` or `Cons:` label (optionally a list item or bold) into the
+ * text of each labelled part, e.g. `Pros: fast. Cons: costly.`; null for any other line.
+ */
+export function prosConsParts(line: string): Array<{ side: ComparisonSide; text: string }> | null {
+  if (!PROS_CONS_RE.test(line)) return null;
+  const body = line.replace(/^\s*(?:[-*+]\s+)?/, '');
+  const labels = /(?:\*\*)?\b(pros|cons)(?:\*\*)?\s*[:-](?:\*\*)?/gi;
+  const found: Array<{ side: ComparisonSide; start: number; end: number }> = [];
+  let m: RegExpExecArray | null;
+  while ((m = labels.exec(body))) {
+    found.push({
+      side: m[1].toLowerCase() as ComparisonSide,
+      start: m.index,
+      end: labels.lastIndex,
+    });
+  }
+  return found.map((f, i) => ({
+    side: f.side,
+    text: body.slice(f.end, found[i + 1]?.start ?? body.length).trim(),
+  }));
+}
+
+/** The two columns of a two-column table, each headed by its header cell; null otherwise. */
+export function tableColumns(block: MarkdownBlock): [string[], string[]] | null {
+  if (block.kind !== 'table') return null;
+  const rows = block.text
+    .split('\n')
+    .filter((row) => !/^\s*\|?[\s:|-]+\|?\s*$/.test(row))
+    .map((row) =>
+      row
+        .trim()
+        .replace(/^\||\|$/g, '')
+        .split('|')
+        .map((cell) => cell.trim()),
+    );
+  if (rows.length < 2 || rows.some((row) => row.length !== 2)) return null;
+  return [rows.map((row) => row[0]), rows.map((row) => row[1])];
+}
+
+// A comparison has labelled pros and cons or a table setting two columns side by side
+function isComparison(blocks: MarkdownBlock[]): boolean {
+  return blocks.some(
+    (b) =>
+      tableColumns(b) !== null ||
+      ((b.kind === 'paragraph' || b.kind === 'list') &&
+        b.text.split('\n').some((l) => PROS_CONS_RE.test(l))),
+  );
+}
+
+/** A whole paragraph in quotation marks, with an optional `— author` attribution. */
+export function isQuotation(block: MarkdownBlock): boolean {
+  return block.kind === 'paragraph' && QUOTATION_RE.test(block.text);
+}
+
+// A quote slide holds nothing but quotations
+function isQuote(blocks: MarkdownBlock[]): boolean {
+  return blocks.length > 0 && blocks.every((b) => b.kind === 'quote' || isQuotation(b));
+}
+
+// A segment is a title slide when it is an H1 with at most a short subtitle paragraph.
+function isTitleSegment(segment: DocumentSegment): boolean {
+  if (segment.heading?.level !== 1) return false;
+  const body = segment.blocks.filter((b) => b.kind !== 'heading');
+  if (body.length === 0) return true;
+  return body.length === 1 && body[0].kind === 'paragraph' && body[0].text.length <= 160;
+}
+
 export function createDefaultLayoutRules(): LayoutRule[] {
   const titleRule: LayoutRule = {
     id: 'rule:title',
     priority: 100,
-    matches: (text) => /^\s*#\s+.+/m.test(text) || /\btitle\b/i.test(text),
+    matches: (text, segment) =>
+      segment ? isTitleSegment(segment) : /^\s*#\s+.+/m.test(text) || /\btitle\b/i.test(text),
     decide: () => ({ type: 'title', params: { variant: 'center' }, rationale: 'title detected' }),
   };
 
   const comparisonRule: LayoutRule = {
     id: 'rule:comparison',
     priority: 80,
-    matches: (text) => /\b(vs|versus)\b/i.test(text) || /(pros\s*[:-]|cons\s*[:-])/i.test(text),
+    matches: (text, segment) => isComparison(bodyBlocks(text, segment)),
     decide: () => ({
       type: 'comparison',
       params: { columns: 2, variant: 'full' },
-      rationale: 'comparison language detected',
+      rationale: 'pros and cons or two columns detected',
     }),
   };
 
   const quoteRule: LayoutRule = {
     id: 'rule:quote',
     priority: 70,
-    matches: (text) => /^\s*>\s+.+/m.test(text) || /“.+”|".+"/s.test(text),
+    matches: (text, segment) => isQuote(bodyBlocks(text, segment)),
     decide: () => ({ type: 'quote', params: { variant: 'center' }, rationale: 'quote detected' }),
   };
 
@@ -117,11 +247,11 @@ export function createDefaultLayoutRules(): LayoutRule[] {
     id: 'rule:list',
     priority: 60,
     matches: (text) => detectListItems(text) >= 2,
-    decide: (text) => {
+    decide: (text, _segment, section) => {
       const items = detectListItems(text);
       return {
         type: 'list',
-        params: { columns: items > 8 ? 2 : 1, variant: 'left' },
+        params: { columns: listColumns(items, section), variant: 'left' },
         rationale: `list with ${items} items`,
       };
     },
@@ -151,6 +281,26 @@ export function createDefaultLayoutEngine(): LayoutEngine {
   return new LayoutEngine(createDefaultLayoutRules());
 }
 
+/**
+ * Decision for a layout chosen outside the rule engine (e.g. pinned by the user), with the
+ * parameters the matching default rule would use.
+ */
+export function decisionForLayout(
+  type: LayoutType,
+  text: string,
+  rationale: string,
+): LayoutDecision {
+  const params: Record<LayoutType, LayoutParams> = {
+    title: { variant: 'center' },
+    comparison: { columns: 2, variant: 'full' },
+    quote: { variant: 'center' },
+    list: { columns: detectListItems(text) > 8 ? 2 : 1, variant: 'left' },
+    image: { variant: 'full', images: extractImageUrls(text) },
+    default: { columns: 1, variant: 'center' },
+  };
+  return { type, params: params[type], rationale, score: 0 };
+}
+
 // -------- Flow optimization (3.2.8) --------
 
 export function optimizeVisualFlow(decisions: LayoutDecision[]): LayoutDecision[] {
@@ -0,0 +1,167 @@
+import type { AnalysisLanguage, Audience } from './AnalysisTypes';
+import { ThemeAudience, ThemeRule, themeForAudience } from './StyleService';
+import { isRecord } from '../utils/TypeGuards';
+
+/**
+ * User lexicon packs: extra vocabulary for `AnalyzerService`, read from a JSON file in the vault.
+ * A pack names its own domain (`legal`, `finance`, `game-dev`…) and claims a note for it once the
+ * note uses enough of its keywords; its audience cues are tried before the built-in ones, and its
+ * theme becomes a StyleService rule for that domain.
+ *
+ * ```json
+ * { "packs": [{ "id": "legal", "domain": "legal", "keywords": ["contract", "clause"],
+ *               "audience": { "executives": ["general counsel"] }, "theme": "business" }] }
+ * ```
+ */
+
+export type CueAudience = Exclude<Audience, 'general'>;
+
+export interface LexiconPack {
+  id: string;
+  domain: string; // reported as ContentAnalysis.domain
+  keywords: string[]; // words or word stems, matched at the start of a word in any case
+  minMatches: number; // keyword occurrences a note needs to be in this domain, default 2
+  audience: Partial<Record<CueAudience, string[]>>;
+  theme?: ThemeAudience; // theme for notes in this domain
+  language?: AnalysisLanguage; // only applies to notes in this language
+}
+
+export interface ParsedLexiconPacks {
+  packs: LexiconPack[];
+  warnings: string[]; // one per ignored pack or value
+}
+
+export const DEFAULT_MIN_MATCHES = 2;
+
+// Above the built-in theme rules, so a pack's domain decides the theme
+const PACK_THEME_PRIORITY = 110;
+
+const CUE_AUDIENCES: readonly CueAudience[] = ['students', 'executives', 'technical'];
+const PACK_THEMES: readonly ThemeAudience[] = [
+  'business',
+  'technical',
+  'academic',
+  'creative',
+  'general',
+];
+const ID_RE = /^[a-z0-9][a-z0-9_-]*$/i;
+
+/**
+ * Reads a lexicon pack file: `{ "packs": [...] }` or a bare array of packs. Invalid packs are
+ * dropped and invalid optional values ignored, each with a warning, like note frontmatter.
+ */
+export function parseLexiconPacks(json: unknown): ParsedLexiconPacks {
+  const result: ParsedLexiconPacks = { packs: [], warnings: [] };
+  const list = Array.isArray(json) ? json : isRecord(json) ? json.packs : undefined;
+  if (!Array.isArray(list)) {
+    result.warnings.push('Lexicon pack file must be an array of packs or { "packs": [...] }');
+    return result;
+  }
+  const ids = new Set<string>();
+  list.forEach((raw, index) => {
+    const pack = parsePack(raw, `pack ${index + 1}`, result.warnings);
+    if (!pack) return;
+    if (ids.has(pack.id)) {
+      result.warnings.push(`Ignoring duplicate lexicon pack "${pack.id}"`);
+      return;
+    }
+    ids.add(pack.id);
+    result.packs.push(pack);
+  });
+  return result;
+}
+
+function parsePack(raw: unknown, label: string, warnings: string[]): LexiconPack | undefined {
+  if (!isRecord(raw)) {
+    warnings.push(`Ignoring ${label}: not an object`);
+    return undefined;
+  }
+  const id = typeof raw.id === 'string' ? raw.id.trim() : '';
+  if (!ID_RE.test(id)) {
+    warnings.push(`Ignoring ${label}: "id" must be a word such as "legal"`);
+    return undefined;
+  }
+  const keywords = wordList(raw.keywords);
+  if (keywords.length === 0) {
+    warnings.push(`Ignoring lexicon pack "${id}": no keywords`);
+    return undefined;
+  }
+  const domain = typeof raw.domain === 'string' && raw.domain.trim() ? raw.domain.trim() : id;
+  const pack: LexiconPack = {
+    id,
+    domain: domain.toLowerCase(),
+    keywords,
+    minMatches: DEFAULT_MIN_MATCHES,
+    audience: parseAudience(raw.audience, id, warnings),
+  };
+  applyOptionalFields(pack, raw, warnings);
+  return pack;
+}
+
+function applyOptionalFields(
+  pack: LexiconPack,
+  raw: Record<string, unknown>,
+  warnings: string[],
+): void {
+  const invalid = (key: string) =>
+    warnings.push(`Lexicon pack "${pack.id}": ignoring invalid ${key} ${JSON.stringify(raw[key])}`);
+  if (raw.minMatches !== undefined) {
+    const n = raw.minMatches;
+    if (typeof n === 'number' && Number.isInteger(n) && n >= 1) pack.minMatches = n;
+    else invalid('minMatches');
+  }
+  if (raw.theme !== undefined) {
+    if (PACK_THEMES.includes(raw.theme as ThemeAudience)) pack.theme = raw.theme as ThemeAudience;
+    else invalid('theme');
+  }
+  if (raw.language !== undefined) {
+    if (raw.language === 'en' || raw.language === 'pl') pack.language = raw.language;
+    else invalid('language');
+  }
+}
+
+function parseAudience(
+  raw: unknown,
+  id: string,
+  warnings: string[],
+): Partial<Record<CueAudience, string[]>> {
+  const audience: Partial<Record<CueAudience, string[]>> = {};
+  if (raw === undefined) return audience;
+  if (!isRecord(raw)) {
+    warnings.push(`Lexicon pack "${id}": "audience" must map audiences to word lists`);
+    return audience;
+  }
+  for (const [key, value] of Object.entries(raw)) {
+    const words = wordList(value);
+    if (!CUE_AUDIENCES.includes(key as CueAudience)) {
+      warnings.push(`Lexicon pack "${id}": unknown audience "${key}"`);
+    } else if (words.length > 0) {
+      audience[key as CueAudience] = words;
+    }
+  }
+  return audience;
+}
+
+function wordList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  const words = value
+    .filter((w): w is string => typeof w === 'string')
+    .map((w) => w.trim().toLowerCase())
+    .filter(Boolean);
+  return Array.from(new Set(words));
+}
+
+/** Theme rules for packs that name a theme: notes in the pack's domain get that theme. */
+export function lexiconThemeRules(packs: readonly LexiconPack[]): ThemeRule[] {
+  return packs
+    .filter((pack) => pack.theme !== undefined)
+    .map((pack) => {
+      const theme = themeForAudience(pack.theme ?? 'general');
+      return {
+        id: `lexicon:${pack.id}`,
+        priority: PACK_THEME_PRIORITY,
+        matches: ({ domain }) => domain === pack.domain,
+        decide: () => ({ ...theme, rationale: `${theme.rationale} (lexicon pack ${pack.id})` }),
+      };
+    });
+}
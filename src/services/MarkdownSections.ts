@@ -0,0 +1,117 @@
+export interface MarkdownHeading {
+  line: number; // 0-based line index
+  level: number; // 1-6
+  title: string;
+}
+
+export interface MarkdownSection {
+  title: string;
+  level: number;
+  startLine: number; // heading line
+  endLine: number; // last non-blank line of the section (inclusive)
+  text: string;
+}
+
+const HEADING_RE = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const FENCE_RE = /^\s*(```|~~~)/;
+
+/** Parses an ATX heading line, returning null for any other line. */
+export function parseHeading(line: string): { level: number; title: string } | null {
+  const m = HEADING_RE.exec(line);
+  return m ? { level: m[1].length, title: m[2] } : null;
+}
+
+/** Returns the fence marker (``` or ~~~) when the line opens or closes a code block. */
+export function fenceMarker(line: string): string | null {
+  const m = FENCE_RE.exec(line);
+  return m ? m[1] : null;
+}
+
+/**
+ * Lists ATX headings in document order, ignoring lines inside fenced code blocks.
+ */
+export function scanHeadings(lines: string[]): MarkdownHeading[] {
+  const headings: MarkdownHeading[] = [];
+  let fence: string | null = null;
+  lines.forEach((raw, line) => {
+    const marker = fenceMarker(raw);
+    if (marker) {
+      if (fence === null) fence = marker;
+      else if (fence === marker) fence = null;
+      return;
+    }
+    if (fence !== null) return;
+    const heading = parseHeading(raw);
+    if (heading) headings.push({ line, ...heading });
+  });
+  return headings;
+}
+
+/**
+ * Returns the section owning `line`: the closest heading at or above it, up to the next
+ * heading of the same or higher level. Returns null when the line precedes every heading.
+ */
+export function findSectionAt(markdown: string, line: number): MarkdownSection | null {
+  const lines = markdown.split(/\r?\n/);
+  const headings = scanHeadings(lines);
+  let index = -1;
+  for (let i = 0; i < headings.length && headings[i].line <= line; i += 1) index = i;
+  if (index < 0) return null;
+
+  const heading = headings[index];
+  const next = headings.slice(index + 1).find((h) => h.level <= heading.level);
+  let endLine = (next ? next.line : lines.length) - 1;
+  while (endLine > heading.line && lines[endLine].trim() === '') endLine -= 1;
+  return {
+    title: heading.title,
+    level: heading.level,
+    startLine: heading.line,
+    endLine,
+    text: lines.slice(heading.line, endLine + 1).join('\n'),
+  };
+}
+
+/**
+ * Finds a section again after the note may have changed: the heading with the same title and
+ * level closest to where the section started. Returns null when no such heading is left.
+ */
+export function relocateSection(
+  markdown: string,
+  section: Pick<MarkdownSection, 'title' | 'level' | 'startLine'>,
+): MarkdownSection | null {
+  const candidates = scanHeadings(markdown.split(/\r?\n/)).filter(
+    (h) => h.title === section.title && h.level === section.level,
+  );
+  const line = closest(
+    candidates.map((h) => h.line),
+    section.startLine,
+  );
+  return line === null ? null : findSectionAt(markdown, line);
+}
+
+/**
+ * The last line of the occurrence of `text` in `markdown` starting closest to `nearLine`, e.g.
+ * a selection after the note changed around it. Returns null when the text is gone.
+ */
+export function findTextEnd(markdown: string, text: string, nearLine: number): number | null {
+  const needle = text.trimEnd();
+  if (needle.length === 0) return null;
+  const starts: number[] = [];
+  for (let i = markdown.indexOf(needle); i >= 0; i = markdown.indexOf(needle, i + 1)) {
+    starts.push(lineAt(markdown, i));
+  }
+  const start = closest(starts, nearLine);
+  return start === null ? null : start + needle.split(/\r?\n/).length - 1;
+}
+
+function lineAt(markdown: string, offset: number): number {
+  return (markdown.slice(0, offset).match(/\n/g) ?? []).length;
+}
+
+function closest(lines: number[], target: number): number | null {
+  return lines.reduce<number | null>(
+    (best, line) =>
+      best === null || Math.abs(line - target) < Math.abs(best - target) ? line : best,
+    null,
+  );
+}
@@ -0,0 +1,12 @@
+/**
+ * Markdown tables for generated report notes. Cell text is kept on one line and `|` is escaped,
+ * which also keeps aliased wiki links (`[[path\|name]]`) working inside a table.
+ */
+export function markdownTable(headers: string[], rows: string[][]): string {
+  const line = (cells: string[]) => `| ${cells.map(cell).join(' | ')} |`;
+  return [line(headers), line(headers.map(() => '---')), ...rows.map(line)].join('\n');
+}
+
+function cell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
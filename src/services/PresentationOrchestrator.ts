@@ -1,39 +1,296 @@
-import { AnalyzerService, ContentAnalysis } from './AnalyzerService';
-import { createDefaultLayoutEngine, LayoutDecision, LayoutEngine } from './LayoutEngine';
-import { StyleService, ThemeDecision } from './StyleService';
+import { AnalyzerService, ContentAnalysis, SectionAnalysis } from './AnalyzerService';
+import {
+  createDefaultLayoutEngine,
+  decisionForLayout,
+  densityFor,
+  LayoutDecision,
+  LayoutEngine,
+} from './LayoutEngine';
+import { StyleService, ThemeAudience, ThemeDecision, themeForAudience } from './StyleService';
+import { LayoutStrategy, SlideTransition } from './GenerationSettings';
 import { Result, ok, err } from '../types/Result';
-import { SlideComposer } from './SlideComposer';
+import {
+  OverflowMode,
+  SlideComposer,
+  SlideRenderOptions,
+  extractSegmentSlides,
+  segmentMarker,
+  slideClasses,
+} from './SlideComposer';
+import { DocumentSegment, segmentDocument } from './DocumentSegmenter';
+import { DeckOptions, assembleDeck } from './DeckAssembler';
+import { FoldReport, foldSegments, segmentLabel } from './SlideBudget';
+import {
+  StructuralSlideBuilder,
+  StructuralSlideKind,
+  StructuralSlideOptions,
+  structuralSlideCount,
+} from './StructuralSlides';
+import { SlideDirective } from './SlideDirectives';
+import { LexiconPack, lexiconThemeRules } from './LexiconPacks';
+import {
+  GenerationFingerprint,
+  compareFingerprints,
+  createFingerprint,
+  defaultSeed,
+  readFingerprint,
+} from './GenerationFingerprint';
+import { LRUCache } from '../utils/LRUCache';
+import { hashString, stableStringify } from '../utils/Hash';
+import type { PhraseStats } from './Keyphrases';
+import { DomainEvents, EventBus } from '../core/events/EventBus';
+import type { DomainEvent } from '../core/events/DomainEvent';
+import { AdapterError, PluginInfo } from '../core/integration/BaseAdapter';
+import type { TextGeneratorAdapter } from '../core/integration/TextGeneratorAdapter';
 
 export interface OrchestratorInput {
   rawMarkdown: string;
   abortSignal?: AbortSignal;
+  maxSlides?: number; // upper bound for composed slides
+  previousDeck?: string; // last written deck; unchanged segments keep their (edited) slides
+  preferredTheme?: ThemeAudience; // used when no theme rule matches the analysis
+  theme?: ThemeAudience; // forces the theme instead of deriving it from the analysis
+  layoutStrategy?: LayoutStrategy; // default 'auto'
+  transition?: SlideTransition; // default 'none'
+  language?: string;
+  overflow?: OverflowMode; // lines past the slide limit go to speaker notes (default) or new slides
+  sourceNotes?: boolean; // add each slide's source text to its speaker notes
+  overrides?: string[]; // names of parameters set by the note itself, reported in metrics
+  deck?: Omit<DeckOptions, 'transition'>; // presentation options for the deck frontmatter
+  title?: string; // deck title for the title slide, e.g. the note name
+  structure?: StructuralSlideOptions; // title, agenda and closing slides; all off by default
+  condense?: boolean; // summarize merged segments that overflow a slide via the text generator
+  seed?: number; // passed to adapters; derived from the note (or prompt) when unset
+  lexicons?: LexiconPack[]; // user vocabulary for the analysis and theme rules
+  corpus?: PhraseStats; // phrase statistics of the vault, for keyphrase scoring
+  onProgress?: (p: OrchestratorProgress) => void; // this run only, besides the options' listener
 }
 
+/**
+ * Input of prompt-only generation: the deck content is drafted from `prompt` instead of a note.
+ */
+export type PromptInput = Omit<OrchestratorInput, 'rawMarkdown' | 'previousDeck'> & {
+  prompt: string;
+};
+
+/**
+ * The parts of the text generator adapter the pipeline uses: drafting a deck from a prompt and
+ * condensing segments merged to fit `maxSlides`.
+ */
+export type DeckDrafter = Pick<
+  TextGeneratorAdapter,
+  'generateTitle' | 'generateOutline' | 'generateSlide' | 'summarize'
+> & { readonly info?: PluginInfo }; // identifies the adapter in the generation fingerprint
+
 export interface OrchestratorProgress {
-  phase: 'idle' | 'analyzing' | 'layouting' | 'styling' | 'composing' | 'done' | 'error';
+  phase:
+    | 'idle'
+    | 'drafting'
+    | 'analyzing'
+    | 'layouting'
+    | 'styling'
+    | 'composing'
+    | 'done'
+    | 'cancelled'
+    | 'error';
   percent: number; // 0-100
   details?: string;
 }
 
 export interface OrchestratorOutput {
   analysis: ContentAnalysis;
+  segments: DocumentSegment[]; // content segments, aligned with layoutDecisions
+  sections: SectionAnalysis[]; // analysis of each content segment
   layoutDecisions: LayoutDecision[];
   theme: ThemeDecision;
   slides: string[]; // markdown per slide (placeholder for 5.2)
+  deck: string; // the slides assembled into a Slides Extended file, frontmatter included
   metrics: OrchestratorMetrics;
+  data: Record<string, unknown>; // results of custom pipeline stages
+  parameters: AppliedParameters;
+  fingerprint: GenerationFingerprint; // also written to the deck frontmatter
+}
+
+/**
+ * Generation parameters a run actually used, after note overrides were applied.
+ */
+export interface AppliedParameters {
+  maxSlides?: number;
+  theme: string; // name of the chosen theme
+  layoutStrategy: LayoutStrategy;
+  transition: SlideTransition;
+  language?: string;
 }
 
 export interface OrchestratorMetrics {
   startedAt: number;
   finishedAt?: number;
   durationMs?: number;
-  steps: Record<string, number>; // step name -> ms
+  steps: Record<string, number>; // stage name -> ms, custom stages included
+  segments?: SegmentReuseMetrics;
+  overrides?: string[]; // parameters overridden by the note
+  draft?: 'text-generator' | 'prompt'; // prompt-only runs: how the content was drafted
+  folding?: FoldReport; // segments merged to fit maxSlides
+  fingerprintChanges?: string[]; // how this run differs from the one that wrote previousDeck
+}
+
+export interface SegmentReuseMetrics {
+  total: number;
+  preserved: number; // taken verbatim from the previous deck
+  cached: number; // composed in an earlier run of this orchestrator
+  composed: number; // laid out and composed in this run
+}
+
+/**
+ * Returned (as the error of a failed Result) when a run is aborted through its AbortSignal.
+ * Carries the slides composed before cancellation so callers can offer a partial deck.
+ */
+export class GenerationCancelledError extends Error {
+  readonly partialSlides: string[];
+  readonly partialDeck?: string; // the partial slides assembled, once a theme was chosen
+  constructor(partialSlides: string[] = [], partialDeck?: string) {
+    super('Generation cancelled');
+    this.name = 'GenerationCancelledError';
+    this.partialSlides = partialSlides;
+    this.partialDeck = partialDeck;
+  }
+}
+
+/**
+ * Incremental results emitted by `PresentationOrchestrator.stream`, in pipeline order.
+ */
+export type OrchestratorEvent =
+  | { type: 'analysis'; analysis: ContentAnalysis }
+  | { type: 'layout'; layoutDecisions: LayoutDecision[] }
+  | { type: 'theme'; theme: ThemeDecision }
+  | { type: 'slide'; index: number; total: number; slide: string }
+  | { type: 'done'; output: OrchestratorOutput }
+  | { type: 'error'; error: Error };
+
+/**
+ * Payloads of the domain events published on `OrchestratorOptions.eventBus`. All events of one
+ * run share its `runId`; layout decisions and slides are published one event per slide.
+ */
+export type PresentationEventMap = {
+  [DomainEvents.PRESENTATION_GENERATION_STARTED]: { runId: string; characters: number };
+  [DomainEvents.CONTENT_ANALYSIS_COMPLETED]: { runId: string; analysis: ContentAnalysis };
+  [DomainEvents.LAYOUT_DECISION_MADE]: {
+    runId: string;
+    index: number;
+    total: number;
+    decision: LayoutDecision;
+  };
+  [DomainEvents.STYLE_DECISION_MADE]: { runId: string; theme: ThemeDecision };
+  [DomainEvents.SLIDE_GENERATED]: { runId: string; index: number; total: number; slide: string };
+  [DomainEvents.PRESENTATION_GENERATION_COMPLETED]: {
+    runId: string;
+    slideCount: number;
+    metrics: OrchestratorMetrics;
+  };
+  [DomainEvents.PRESENTATION_GENERATION_FAILED]: {
+    runId: string;
+    error: string;
+    cancelled: boolean;
+  };
+};
+
+type EventSummary = { runId: string } & Record<string, string | number | boolean>;
+
+const EVENT_SUMMARIES: {
+  [K in keyof PresentationEventMap]: (data: PresentationEventMap[K]) => EventSummary;
+} = {
+  [DomainEvents.PRESENTATION_GENERATION_STARTED]: (data) => data,
+  [DomainEvents.CONTENT_ANALYSIS_COMPLETED]: ({ runId, analysis }) => ({
+    runId,
+    domain: analysis.domain,
+    keyTopics: analysis.keyTopics.length,
+  }),
+  [DomainEvents.LAYOUT_DECISION_MADE]: ({ runId, index, total, decision }) => ({
+    runId,
+    index,
+    total,
+    layout: decision.type,
+  }),
+  [DomainEvents.STYLE_DECISION_MADE]: ({ runId, theme }) => ({ runId, theme: theme.name }),
+  [DomainEvents.SLIDE_GENERATED]: ({ runId, index, total, slide }) => ({
+    runId,
+    index,
+    total,
+    characters: slide.length,
+  }),
+  [DomainEvents.PRESENTATION_GENERATION_COMPLETED]: ({ runId, slideCount, metrics }) => ({
+    runId,
+    slideCount,
+    durationMs: metrics.durationMs ?? 0,
+  }),
+  [DomainEvents.PRESENTATION_GENERATION_FAILED]: (data) => data,
+};
+
+/**
+ * What an event bus history keeps of a presentation event (`summarizeForHistory`): ids and
+ * counts instead of the analysis, decks and slides, which handlers still receive in full.
+ */
+export function summarizePresentationEvent(event: DomainEvent): DomainEvent {
+  const summarize = EVENT_SUMMARIES[event.type as keyof PresentationEventMap] as
+    | ((data: unknown) => EventSummary)
+    | undefined;
+  return summarize ? { ...event, data: summarize(event.data) } : event;
+}
+
+export type BuiltInStageName = 'analyze' | 'layout' | 'style' | 'compose';
+
+/**
+ * State shared by the stages of one run. Built-in stages fill it in order: `analyze` sets
+ * `analysis`, `layout` sets `segments`, `sections` and `layoutDecisions`, `style` sets `theme` and
+ * `compose` fills `slides`. Later stages see (and may change) what earlier ones produced.
+ */
+export interface PipelineContext {
+  readonly input: OrchestratorInput;
+  analysis?: ContentAnalysis;
+  segments: DocumentSegment[];
+  sections: SectionAnalysis[]; // one per segment
+  layoutDecisions: LayoutDecision[]; // one per segment
+  theme?: ThemeDecision;
+  slides: string[];
+  data: Record<string, unknown>; // custom stage results, returned as OrchestratorOutput.data
+  seed: number; // pass to any adapter a stage calls
+  adapters: string[]; // `id@version` of the adapters called so far, for the fingerprint
+}
+
+/**
+ * Custom step that runs after a built-in stage, e.g. a glossary extractor after `analyze` or a
+ * disclaimer injector after `compose`. Like the built-in stages it is timed in `metrics.steps`
+ * under its name, is skipped once the run is aborted, and degrades instead of failing the run:
+ * when `run` throws, the error is logged and `fallback` is applied.
+ * Slides added after `compose` are not streamed as `slide` events; they appear in `done`.
+ */
+export interface PipelineStage {
+  name: string;
+  after?: BuiltInStageName; // default 'compose'; stages sharing a position run in order added
+  run(ctx: PipelineContext): void | Promise<void>;
+  fallback?(ctx: PipelineContext, error: Error): void;
+}
+
+/**
+ * Callback run before or after a built-in stage. Errors are logged and ignored.
+ */
+export interface StageHook {
+  when: 'before' | 'after';
+  stage: BuiltInStageName;
+  run(ctx: PipelineContext): void | Promise<void>;
 }
 
 export interface OrchestratorOptions {
   layoutEngine?: LayoutEngine;
   analyzer?: AnalyzerService;
   style?: StyleService;
+  composer?: SlideComposer;
+  structure?: StructuralSlideBuilder;
+  stages?: PipelineStage[];
+  hooks?: StageHook[];
+  eventBus?: EventBus<PresentationEventMap>;
+  // Enables drafting decks from a prompt; resolved per run since the plugin may come and go
+  textGenerator?: () => DeckDrafter | undefined;
   onProgress?: (p: OrchestratorProgress) => void;
   now?: () => number;
   logger?: {
@@ -43,10 +300,29 @@ export interface OrchestratorOptions {
   };
 }
 
+interface PlannedStage {
+  name: string;
+  run(ctx: PipelineContext, metrics: OrchestratorMetrics): AsyncGenerator<OrchestratorEvent, void>;
+  summary?(ctx: PipelineContext): OrchestratorEvent; // yielded once the after-hooks have run
+}
+
+type ProgressReporter = (
+  phase: OrchestratorProgress['phase'],
+  percent: number,
+  details?: string,
+) => void;
+
 export class PresentationOrchestrator {
   private readonly analyzer: AnalyzerService;
   private readonly layout: LayoutEngine;
   private readonly style: StyleService;
+  private readonly composer: SlideComposer;
+  private readonly structure: StructuralSlideBuilder;
+  private readonly stages: PipelineStage[];
+  private readonly hooks: StageHook[];
+  private readonly eventBus?: EventBus<PresentationEventMap>;
+  private readonly textGenerator?: () => DeckDrafter | undefined;
+  private runCount = 0;
   private readonly emit?: (p: OrchestratorProgress) => void;
   private readonly now: () => number;
   private readonly logger?: {
@@ -55,164 +331,907 @@ export class PresentationOrchestrator {
     error?(msg: string, ctx?: Record<string, unknown>): void;
   };
   private readonly analysisCache = new Map<string, ContentAnalysis>();
-  private readonly layoutsCache = new Map<string, LayoutDecision[]>();
-  // reserved for future external cancel API usage
+  // Keyed per segment so an edit only invalidates the slides it touches
+  private readonly layoutsCache = new LRUCache<string, LayoutDecision>({ maxEntries: 2048 });
+  private readonly slidesCache = new LRUCache<string, string>({ maxEntries: 2048 });
 
   constructor(options: OrchestratorOptions = {}) {
     this.analyzer = options.analyzer ?? new AnalyzerService();
     this.layout = options.layoutEngine ?? createDefaultLayoutEngine();
     this.style = options.style ?? new StyleService();
+    this.composer = options.composer ?? new SlideComposer({ maxLinesPerSlide: 20 });
+    this.structure = options.structure ?? new StructuralSlideBuilder();
+    this.stages = [...(options.stages ?? [])];
+    this.hooks = [...(options.hooks ?? [])];
+    this.eventBus = options.eventBus;
+    this.textGenerator = options.textGenerator;
     this.emit = options.onProgress;
     this.now = options.now ?? (() => Date.now());
     this.logger = options.logger;
   }
 
+  addStage(stage: PipelineStage): void {
+    this.stages.push(stage);
+  }
+
+  addHook(hook: StageHook): void {
+    this.hooks.push(hook);
+  }
+
   async generate(input: OrchestratorInput): Promise<Result<OrchestratorOutput, Error>> {
-    const metrics: OrchestratorMetrics = { startedAt: this.now(), steps: {} };
-    const startStep = () => this.now();
-    const endStep = (stepName: string, s: number) => (metrics.steps[stepName] = this.now() - s);
+    return outcome(this.stream(input));
+  }
+
+  /**
+   * Runs the pipeline as an async iterator: yields the analysis, layout decisions and theme,
+   * then every slide as soon as it is composed, and finally `done` or `error`. Never throws.
+   * Each event is published on the event bus (if any) before it is yielded.
+   */
+  async *stream(input: OrchestratorInput): AsyncGenerator<OrchestratorEvent, void, undefined> {
+    yield* this.published(input.rawMarkdown.length, this.run(input));
+  }
+
+  async generateFromPrompt(input: PromptInput): Promise<Result<OrchestratorOutput, Error>> {
+    return outcome(this.streamFromPrompt(input));
+  }
+
+  /**
+   * Prompt-only generation ("type a topic, get a deck"): drafts a title, an outline and bullets
+   * per outline point through the text generator, then runs the drafted markdown through the
+   * regular pipeline. Without a text generator, or when drafting the outline fails, the prompt
+   * itself goes through the heuristic pipeline. Streams the same events as `stream`.
+   */
+  async *streamFromPrompt(input: PromptInput): AsyncGenerator<OrchestratorEvent, void, undefined> {
+    yield* this.published(input.prompt.length, this.runFromPrompt(input));
+  }
+
+  private async *published(
+    characters: number,
+    events: AsyncGenerator<OrchestratorEvent, void, undefined>,
+  ): AsyncGenerator<OrchestratorEvent, void, undefined> {
+    this.runCount += 1;
+    const runId = `${this.now().toString(36)}-${this.runCount}`;
+    void this.eventBus?.publishTyped(DomainEvents.PRESENTATION_GENERATION_STARTED, {
+      runId,
+      characters,
+    });
+    for await (const event of events) {
+      this.publishEvent(runId, event);
+      yield event;
+    }
+  }
+
+  private async *runFromPrompt(
+    input: PromptInput,
+  ): AsyncGenerator<OrchestratorEvent, void, undefined> {
+    const startedAt = this.now();
+    const { prompt, ...options } = input;
+    // Seeded from the prompt, not the drafted text, so the same prompt drafts the same deck
+    const seed = input.seed ?? defaultSeed(prompt.trim());
+    let draft: { markdown: string; source: 'text-generator' | 'prompt'; adapter?: string };
+    try {
+      draft = await this.draftDeck(input, seed);
+    } catch (e) {
+      const error = e instanceof Error ? e : new Error(String(e));
+      const cancelled = error instanceof GenerationCancelledError;
+      this.progress(input, {
+        phase: cancelled ? 'cancelled' : 'error',
+        percent: 0,
+        details: cancelled ? 'Cancelled while drafting' : error.message,
+      });
+      yield { type: 'error', error };
+      return;
+    }
+    const draftMs = this.now() - startedAt;
+    this.logger?.info('draft completed', {
+      ms: draftMs,
+      source: draft.source,
+      prompt: prompt.length,
+    });
+    // Drafting takes the first half of the progress range
+    const pipeline = this.run(
+      { ...options, rawMarkdown: draft.markdown, seed },
+      DRAFT_PROGRESS,
+      draft.adapter ? [draft.adapter] : [],
+    );
+    for await (const event of pipeline) {
+      if (event.type === 'done') {
+        const metrics = event.output.metrics;
+        metrics.steps = { draft: draftMs, ...metrics.steps };
+        metrics.draft = draft.source;
+        metrics.startedAt = startedAt;
+        if (metrics.finishedAt !== undefined) metrics.durationMs = metrics.finishedAt - startedAt;
+      }
+      yield event;
+    }
+  }
+
+  /**
+   * Builds deck markdown from a prompt: `# title`, then one `## point` section with bullets per
+   * outline point. A failed title or slide falls back to the prompt or a bare heading.
+   */
+  private async draftDeck(
+    input: PromptInput,
+    seed: number,
+  ): Promise<{ markdown: string; source: 'text-generator' | 'prompt'; adapter?: string }> {
+    const topic = input.prompt.trim();
+    const generator = this.textGenerator?.();
+    const signal = input.abortSignal;
+    const fallback = { markdown: topic, source: 'prompt' as const };
+    if (!generator) return fallback;
+    const draftReport = (percent: number, details: string) =>
+      this.progress(input, { phase: 'drafting', percent, details });
+
+    draftReport(2, 'Drafting title');
+    const title = await this.draftPart(() => generator.generateTitle(topic, signal, seed), topic);
+    draftReport(8, 'Drafting outline');
+    const outline = await this.draftPart(() => generator.generateOutline(topic, signal, seed), []);
+    if (outline.length === 0) {
+      this.logger?.warn?.('outline drafting failed, using the prompt as content');
+      return fallback;
+    }
+    const points = input.maxSlides ? outline.slice(0, Math.max(1, input.maxSlides - 1)) : outline;
+    const sections = [`# ${cleanDraftLine(title) || topic}`];
+    for (let i = 0; i < points.length; i += 1) {
+      this.checkAbort(signal);
+      draftReport(
+        10 + Math.round((i / points.length) * (DRAFT_PROGRESS - 10)),
+        `Drafting slide ${i + 1}/${points.length}`,
+      );
+      const point = cleanDraftLine(points[i]);
+      const bullets = await this.draftPart(
+        () => generator.generateSlide(topic, point, signal, seed),
+        [],
+      );
+      const body = bullets.map((b) => `- ${cleanDraftLine(b)}`).join('\n');
+      sections.push(body ? `## ${point}\n\n${body}` : `## ${point}`);
+    }
+    return {
+      markdown: sections.join('\n\n'),
+      source: 'text-generator',
+      adapter: adapterId(generator),
+    };
+  }
+
+  // Progress goes to the orchestrator's listener and to the run's own one
+  private progress(input: Pick<OrchestratorInput, 'onProgress'>, p: OrchestratorProgress): void {
+    this.emit?.(p);
+    input.onProgress?.(p);
+  }
+
+  /** Runs one drafting call; failures other than cancellation yield `fallback`. */
+  private async draftPart<T>(call: () => Promise<T>, fallback: T): Promise<T> {
+    try {
+      return await call();
+    } catch (e) {
+      if (isAbort(e)) throw new GenerationCancelledError();
+      this.logger?.warn?.('drafting call failed, using fallback', { error: String(e) });
+      return fallback;
+    }
+  }
 
-    const report = (phase: OrchestratorProgress['phase'], percent: number, details?: string) => {
-      this.emit?.({ phase, percent, details });
+  private async *run(
+    input: OrchestratorInput,
+    progressFrom = 0,
+    adapters: string[] = [],
+  ): AsyncGenerator<OrchestratorEvent, void, undefined> {
+    const metrics: OrchestratorMetrics = { startedAt: this.now(), steps: {} };
+    if (input.overrides?.length) metrics.overrides = [...input.overrides];
+    const report: ProgressReporter = (phase, percent, details) => {
+      const scaled = progressFrom + Math.round((percent * (100 - progressFrom)) / 100);
+      this.progress(input, { phase, percent: scaled, details });
     };
 
     if (input.abortSignal?.aborted) {
-      report('error', 0, 'Aborted before start');
-      return err(new Error('aborted'));
+      report('cancelled', 0, 'Aborted before start');
+      yield { type: 'error', error: new GenerationCancelledError() };
+      return;
     }
 
+    const ctx: PipelineContext = {
+      input,
+      segments: [],
+      sections: [],
+      layoutDecisions: [],
+      slides: [],
+      data: {},
+      seed: input.seed ?? defaultSeed(input.rawMarkdown),
+      adapters: [...adapters],
+    };
+
     try {
-      report('analyzing', 5, 'Analyzing content');
-      let t = startStep();
-      const hash = hashString(input.rawMarkdown);
-      let analysis = this.analysisCache.get(hash);
-      if (!analysis) {
+      for (const stage of this.plan(report)) {
+        yield* this.runStage(stage, ctx, metrics);
+      }
+
+      report('done', 100, 'Completed');
+      metrics.finishedAt = this.now();
+      metrics.durationMs = metrics.finishedAt - metrics.startedAt;
+      const theme = ctx.theme ?? FALLBACK_THEME;
+      const fingerprint = this.fingerprint(ctx);
+      const changes = this.fingerprintChanges(ctx, fingerprint);
+      if (changes) metrics.fingerprintChanges = changes;
+
+      yield {
+        type: 'done',
+        output: {
+          analysis: ctx.analysis ?? fallbackAnalysis(input.rawMarkdown),
+          segments: ctx.segments,
+          sections: ctx.sections,
+          layoutDecisions: ctx.layoutDecisions,
+          theme,
+          slides: ctx.slides,
+          deck: assembleDeck(ctx.slides, theme, deckOptions(input, fingerprint)),
+          metrics,
+          data: ctx.data,
+          parameters: {
+            maxSlides: input.maxSlides,
+            theme: theme.name,
+            layoutStrategy: input.layoutStrategy ?? 'auto',
+            transition: input.transition ?? 'none',
+            language: input.language,
+          },
+          fingerprint,
+        },
+      };
+    } catch (e) {
+      if (e instanceof GenerationCancelledError) {
+        this.logger?.info('orchestrator cancelled', { partialSlides: ctx.slides.length });
+        report('cancelled', 100, 'Cancelled');
+        const slides = [...ctx.slides];
+        const partialDeck =
+          ctx.theme && slides.length > 0
+            ? assembleDeck(slides, ctx.theme, deckOptions(input, this.fingerprint(ctx)))
+            : undefined;
+        yield { type: 'error', error: new GenerationCancelledError(slides, partialDeck) };
+        return;
+      }
+      this.logger?.error?.('orchestrator failed', { error: String(e) });
+      report('error', 100, (e as Error).message);
+      yield { type: 'error', error: e as Error };
+    }
+  }
+
+  /**
+   * Events are observational: handlers are not awaited, so a slow listener never holds up a run
+   * or its cancellation. Handlers still start before the event is yielded to the caller.
+   */
+  private publishEvent(runId: string, event: OrchestratorEvent): void {
+    const bus = this.eventBus;
+    if (!bus) return;
+    switch (event.type) {
+      case 'analysis':
+        void bus.publishTyped(DomainEvents.CONTENT_ANALYSIS_COMPLETED, {
+          runId,
+          analysis: event.analysis,
+        });
+        break;
+      case 'layout': {
+        const total = event.layoutDecisions.length;
+        for (let index = 0; index < total; index += 1) {
+          void bus.publishTyped(DomainEvents.LAYOUT_DECISION_MADE, {
+            runId,
+            index,
+            total,
+            decision: event.layoutDecisions[index],
+          });
+        }
+        break;
+      }
+      case 'theme':
+        void bus.publishTyped(DomainEvents.STYLE_DECISION_MADE, { runId, theme: event.theme });
+        break;
+      case 'slide':
+        void bus.publishTyped(DomainEvents.SLIDE_GENERATED, {
+          runId,
+          index: event.index,
+          total: event.total,
+          slide: event.slide,
+        });
+        break;
+      case 'done':
+        void bus.publishTyped(DomainEvents.PRESENTATION_GENERATION_COMPLETED, {
+          runId,
+          slideCount: event.output.slides.length,
+          metrics: event.output.metrics,
+        });
+        break;
+      case 'error':
+        void bus.publishTyped(DomainEvents.PRESENTATION_GENERATION_FAILED, {
+          runId,
+          error: event.error.message,
+          cancelled: event.error instanceof GenerationCancelledError,
+        });
+        break;
+    }
+  }
+
+  /** Built-in stages in pipeline order, each followed by the custom stages placed after it. */
+  private plan(report: ProgressReporter): PlannedStage[] {
+    const builtIns: Array<PlannedStage & { name: BuiltInStageName }> = [
+      {
+        name: 'analyze',
+        run: (ctx) => this.analyzeStage(ctx, report),
+        summary: (ctx) => ({
+          type: 'analysis',
+          analysis: ctx.analysis ?? fallbackAnalysis(ctx.input.rawMarkdown),
+        }),
+      },
+      {
+        name: 'layout',
+        run: (ctx, metrics) => this.layoutStage(ctx, metrics, report),
+        summary: (ctx) => ({ type: 'layout', layoutDecisions: ctx.layoutDecisions }),
+      },
+      {
+        name: 'style',
+        run: (ctx) => this.styleStage(ctx, report),
+        summary: (ctx) => ({ type: 'theme', theme: ctx.theme ?? FALLBACK_THEME }),
+      },
+      { name: 'compose', run: (ctx, metrics) => this.composeStage(ctx, metrics, report) },
+    ];
+    const planned: PlannedStage[] = [];
+    for (const builtIn of builtIns) {
+      planned.push(builtIn);
+      for (const stage of this.stages) {
+        if ((stage.after ?? 'compose') === builtIn.name) planned.push(this.customStage(stage));
+      }
+    }
+    return planned;
+  }
+
+  /**
+   * Runs one stage between its hooks and records its duration. Time the consumer spends
+   * between yielded events is not counted.
+   */
+  private async *runStage(
+    stage: PlannedStage,
+    ctx: PipelineContext,
+    metrics: OrchestratorMetrics,
+  ): AsyncGenerator<OrchestratorEvent, void, undefined> {
+    const signal = ctx.input.abortSignal;
+    await this.runHooks('before', stage.name, ctx);
+    this.checkAbort(signal);
+    const events = stage.run(ctx, metrics);
+    let ms = 0;
+    for (;;) {
+      const t = this.now();
+      const next = await events.next();
+      ms += this.now() - t;
+      if (next.done) break;
+      yield next.value;
+    }
+    metrics.steps[stage.name] = ms;
+    this.logger?.info(`${stage.name} completed`, { ms });
+    this.checkAbort(signal);
+    await this.runHooks('after', stage.name, ctx);
+    this.checkAbort(signal);
+    if (stage.summary) yield stage.summary(ctx);
+  }
+
+  private async runHooks(
+    when: StageHook['when'],
+    stageName: string,
+    ctx: PipelineContext,
+  ): Promise<void> {
+    for (const hook of this.hooks) {
+      if (hook.when !== when || hook.stage !== stageName) continue;
+      try {
+        await hook.run(ctx);
+      } catch (e) {
+        if (e instanceof GenerationCancelledError) throw e;
+        this.logger?.warn?.(`${when} ${stageName} hook failed, ignoring`, { error: String(e) });
+      }
+    }
+  }
+
+  private customStage(stage: PipelineStage): PlannedStage {
+    const logger = this.logger;
+    return {
+      name: stage.name,
+      async *run(ctx) {
         try {
-          analysis = this.analyzer.analyze(input.rawMarkdown);
-          this.analysisCache.set(hash, analysis);
+          await stage.run(ctx);
         } catch (e) {
-          this.logger?.warn?.('analyze failed, using fallback', { error: String(e) });
-          analysis = fallbackAnalysis(input.rawMarkdown);
+          if (e instanceof GenerationCancelledError) throw e;
+          logger?.warn?.(`${stage.name} failed, using fallback`, { error: String(e) });
+          stage.fallback?.(ctx, e instanceof Error ? e : new Error(String(e)));
         }
+      },
+    };
+  }
+
+  private async *analyzeStage(
+    ctx: PipelineContext,
+    report: ProgressReporter,
+  ): AsyncGenerator<OrchestratorEvent, void> {
+    report('analyzing', 5, 'Analyzing content');
+    const markdown = ctx.input.rawMarkdown;
+    const { language, lexicons: packs, corpus } = ctx.input;
+    const hash = hashString(
+      `${language ?? 'auto'}\n${stableStringify(packs ?? [])}\n${
+        corpus?.revision ?? ''
+      }\n${markdown}`,
+    );
+    let analysis = this.analysisCache.get(hash);
+    if (!analysis) {
+      try {
+        analysis = this.analyzer.analyze(markdown, { language, packs, corpus });
+        this.analysisCache.set(hash, analysis);
+      } catch (e) {
+        this.logger?.warn?.('analyze failed, using fallback', { error: String(e) });
+        analysis = fallbackAnalysis(markdown);
+      }
+    }
+    ctx.analysis = analysis;
+  }
+
+  private async *layoutStage(
+    ctx: PipelineContext,
+    metrics: OrchestratorMetrics,
+    report: ProgressReporter,
+  ): AsyncGenerator<OrchestratorEvent, void> {
+    report('layouting', 30, 'Selecting layouts');
+    let segments: DocumentSegment[] = this.applySkipDirectives(
+      segmentDocument(ctx.input.rawMarkdown),
+    );
+    // Structural slides count against maxSlides, but at least one content slide is kept
+    const limit =
+      ctx.input.maxSlides === undefined
+        ? undefined
+        : Math.max(1, ctx.input.maxSlides - structuralSlideCount(ctx.input.structure));
+    if (limit !== undefined && segments.length > limit) {
+      const analysis = ctx.analysis ?? fallbackAnalysis(ctx.input.rawMarkdown);
+      const folded = foldSegments(segments, limit, analysis);
+      this.logger?.info('segments folded to fit maxSlides', {
+        maxSlides: limit,
+        segments: segments.length,
+        merges: folded.report.merges.length,
+        dropped: folded.report.dropped.length,
+      });
+      segments = ctx.input.condense
+        ? await this.condenseFolded(folded.segments, folded.report, ctx)
+        : folded.segments;
+      metrics.folding = folded.report;
+    }
+    ctx.segments = segments;
+    ctx.sections = segments.map((seg) => this.analyzeSection(seg, ctx));
+    const decisions = segments.map((seg, i) =>
+      this.decideLayout(seg, ctx.sections[i], ctx.input.abortSignal),
+    );
+    ctx.layoutDecisions = applyDirectives(segments, this.applyLayoutStrategy(decisions, ctx.input));
+  }
+
+  /**
+   * Summarizes merged segments that no longer fit on one slide into bullets under their
+   * heading. Without a text generator, or when a summary fails, the merged text is kept and
+   * the overflow setting applies to it.
+   */
+  private async condenseFolded(
+    segments: DocumentSegment[],
+    report: FoldReport,
+    ctx: PipelineContext,
+  ): Promise<DocumentSegment[]> {
+    const generator = this.textGenerator?.();
+    if (!generator) return segments;
+    const signal = ctx.input.abortSignal;
+    const merged = new Set(report.merges.map((m) => m.into));
+    const out: DocumentSegment[] = [];
+    for (const segment of segments) {
+      const label = segmentLabel(segment);
+      const lines = segment.text.split('\n').filter((l) => l.trim().length > 0);
+      if (!merged.has(label) || lines.length <= this.composer.maxLinesPerSlide) {
+        out.push(segment);
+        continue;
+      }
+      this.checkAbort(signal);
+      const body = segment.heading ? lines.slice(1).join('\n') : lines.join('\n');
+      const bullets = await this.draftPart(
+        () => generator.summarize(body, 5, signal, ctx.seed),
+        [],
+      );
+      recordAdapter(ctx, adapterId(generator));
+      if (bullets.length === 0) {
+        out.push(segment);
+        continue;
+      }
+      const heading = segment.heading ? `${lines[0]}\n\n` : '';
+      const text = `${heading}${bullets.map((b) => `- ${cleanDraftLine(b)}`).join('\n')}`;
+      out.push({ ...segment, text });
+      report.condensed.push(label);
+    }
+    return out;
+  }
+
+  private applySkipDirectives(segments: DocumentSegment[]): DocumentSegment[] {
+    const kept = segments.filter((seg) => !seg.directive?.skip);
+    if (kept.length < segments.length) {
+      this.logger?.info('skipping segments by directive', {
+        skipped: segments.length - kept.length,
+      });
+    }
+    for (const seg of kept) {
+      if (seg.directive?.ignored) {
+        this.logger?.warn?.('ignoring unknown slide directive options', {
+          index: seg.index,
+          options: seg.directive.ignored,
+        });
       }
-      endStep('analyze', t);
-      this.logger?.info('analyze completed', { ms: metrics.steps['analyze'] });
-      this.checkAbort(input.abortSignal);
-
-      report('layouting', 30, 'Selecting layouts');
-      t = startStep();
-      const paragraphs = splitIntoParagraphs(input.rawMarkdown);
-      let layoutDecisions = this.layoutsCache.get(hash);
-      if (!layoutDecisions) {
-        const perParagraph: LayoutDecision[] = [];
-        for (let i = 0; i < paragraphs.length; i += 1) {
-          this.checkAbort(input.abortSignal);
-          const p = paragraphs[i];
-          try {
-            perParagraph.push(this.layout.decide(p));
-          } catch (e) {
-            this.logger?.warn?.('layout decide failed, using default', {
-              index: i,
-              error: String(e),
-            });
-            perParagraph.push({
+    }
+    return kept;
+  }
+
+  private applyLayoutStrategy(
+    decisions: LayoutDecision[],
+    input: OrchestratorInput,
+  ): LayoutDecision[] {
+    const strategy = input.layoutStrategy ?? 'auto';
+    let result = decisions;
+    if (strategy === 'auto') result = this.layout.optimizeFlow(decisions);
+    if (strategy === 'minimal') {
+      result = decisions.map((d) =>
+        d.type === 'title'
+          ? d
+          : {
               type: 'default',
               params: { columns: 1, variant: 'center' },
-              rationale: 'fallback-default',
+              rationale: 'layout-strategy:minimal',
               score: 0,
-            });
-          }
-        }
-        layoutDecisions = this.layout.optimizeFlow(perParagraph);
-        this.layoutsCache.set(hash, layoutDecisions);
-      }
-      endStep('layout', t);
-      this.logger?.info('layout completed', {
-        ms: metrics.steps['layout'],
-        count: layoutDecisions.length,
-      });
-      this.checkAbort(input.abortSignal);
+            },
+      );
+    }
+    const transition = input.transition ?? 'none';
+    if (transition === 'none') return result;
+    return result.map((d) => ({ ...d, params: { ...d.params, transition } }));
+  }
 
-      report('styling', 55, 'Choosing theme');
-      t = startStep();
-      let theme: ThemeDecision;
-      try {
-        theme = this.style.decideFromAnalysis({
+  private async *styleStage(
+    ctx: PipelineContext,
+    report: ProgressReporter,
+  ): AsyncGenerator<OrchestratorEvent, void> {
+    report('styling', 55, 'Choosing theme');
+    if (ctx.input.theme) {
+      ctx.theme = { ...themeForAudience(ctx.input.theme), rationale: 'note-override' };
+      return;
+    }
+    const analysis = ctx.analysis ?? fallbackAnalysis(ctx.input.rawMarkdown);
+    try {
+      const style = this.style.extend(lexiconThemeRules(ctx.input.lexicons ?? []));
+      ctx.theme = style.decideFromAnalysis(
+        {
           audience: analysis.audience,
           domain: analysis.domain,
           tone: analysis.tone,
-        });
-      } catch (e) {
-        this.logger?.warn?.('style decide failed, using fallback theme', { error: String(e) });
-        theme = {
-          name: 'General Neutral',
-          colors: {
-            primary: '#4C7CF3',
-            secondary: '#A3B1DA',
-            background: '#FFFFFF',
-            text: '#1A1A1A',
-          },
-          fonts: { heading: 'Inter', body: 'Inter' },
-          rationale: 'fallback',
-          modifiers: { spacing: 'comfortable', emphasis: 'low', animations: 'none' },
-        };
-      }
-      endStep('style', t);
-      this.logger?.info('style completed', { ms: metrics.steps['style'], theme: theme.name });
-      this.checkAbort(input.abortSignal);
-
-      // 5.2: Compose slides using SlideComposer (basic)
-      report('composing', 80, 'Preparing slides');
-      t = startStep();
-      const composer = new SlideComposer({ maxLinesPerSlide: 20 });
-      const composed = composer.composeSlides(paragraphs, layoutDecisions, theme);
-      if (!composed.ok) {
-        throw composed.error;
-      }
-      const slides = composed.value;
-      endStep('compose', t);
-      this.logger?.info('compose completed', {
-        ms: metrics.steps['compose'],
-        slides: slides.length,
+          confidence: analysis.confidence,
+        },
+        ctx.input.preferredTheme,
+      );
+    } catch (e) {
+      this.logger?.warn?.('style decide failed, using fallback theme', { error: String(e) });
+      ctx.theme = FALLBACK_THEME;
+    }
+  }
+
+  // 5.2: Compose slides using SlideComposer, one segment at a time
+  private async *composeStage(
+    ctx: PipelineContext,
+    metrics: OrchestratorMetrics,
+    report: ProgressReporter,
+  ): AsyncGenerator<OrchestratorEvent, void> {
+    report('composing', 80, 'Preparing slides');
+    const { segments, layoutDecisions } = ctx;
+    const theme = ctx.theme ?? FALLBACK_THEME;
+    // A deck written by a differently configured run is recomposed as a whole
+    const previous =
+      ctx.input.previousDeck && !this.reconfigured(ctx)
+        ? extractSegmentSlides(ctx.input.previousDeck)
+        : new Map<string, string>();
+    const reuse: SegmentReuseMetrics = {
+      total: segments.length,
+      preserved: 0,
+      cached: 0,
+      composed: 0,
+    };
+    metrics.segments = reuse;
+    const render = { overflow: ctx.input.overflow, sourceNotes: ctx.input.sourceNotes };
+    const frame = (kind: StructuralSlideKind) => this.structuralSlide(kind, ctx, theme, previous);
+    const opening = [frame('title'), frame('agenda')].filter((s): s is string => s !== null);
+    const closing = [frame('closing')].filter((s): s is string => s !== null);
+    const total = opening.length + segments.length + closing.length;
+    const composed = (slide: string) => {
+      const index = ctx.slides.push(slide) - 1;
+      report(
+        'composing',
+        80 + Math.round(((index + 1) / total) * 19),
+        `Composed slide ${index + 1}/${total}`,
+      );
+      return { type: 'slide' as const, index, total, slide };
+    };
+    for (const slide of opening) yield composed(slide);
+    for (let i = 0; i < segments.length; i += 1) {
+      this.checkAbort(ctx.input.abortSignal);
+      const slide = this.composeSegment(
+        segments[i],
+        slideId(segments[i], layoutDecisions[i], theme, render),
+        layoutDecisions[i],
+        theme,
+        { previous, reuse, render },
+      );
+      yield composed(slide);
+    }
+    for (const slide of closing) yield composed(slide);
+  }
+
+  /**
+   * Renders an enabled structural slide. Like content slides it carries a segment marker, so an
+   * edited copy in the previous deck is kept while the generated content stays the same.
+   */
+  private structuralSlide(
+    kind: StructuralSlideKind,
+    ctx: PipelineContext,
+    theme: ThemeDecision,
+    previous: Map<string, string>,
+  ): string | null {
+    if (!ctx.input.structure?.[kind]) return null;
+    const built = this.structure.build(kind, {
+      deckTitle: ctx.input.title,
+      analysis: ctx.analysis ?? fallbackAnalysis(ctx.input.rawMarkdown),
+      segments: ctx.segments,
+      theme,
+    });
+    if (!built.ok) {
+      this.logger?.warn?.('structural slide failed, skipping', {
+        kind,
+        error: built.error.message,
       });
+      return null;
+    }
+    if (built.value === null) return null;
+    const id = hashString(`structure:${kind}|${built.value}`);
+    return previous.get(id) ?? `${segmentMarker(id)}\n${built.value}`;
+  }
 
-      report('done', 100, 'Completed');
-      metrics.finishedAt = this.now();
-      metrics.durationMs = metrics.finishedAt - metrics.startedAt;
+  /** Section analysis of a segment, in the language of the whole document. */
+  private analyzeSection(segment: DocumentSegment, ctx: PipelineContext): SectionAnalysis {
+    const analysis = ctx.analysis ?? fallbackAnalysis(ctx.input.rawMarkdown);
+    try {
+      return this.analyzer.analyzeSection(segment.text, analysis, { corpus: ctx.input.corpus });
+    } catch (e) {
+      this.logger?.warn?.('section analysis failed, using the document analysis', {
+        index: segment.index,
+        error: String(e),
+      });
+      const { complexity, tone, confidence } = analysis;
+      return { complexity, tone, keyTopics: [], confidence };
+    }
+  }
 
-      return ok({ analysis, layoutDecisions, theme, slides, metrics });
+  private decideLayout(
+    segment: DocumentSegment,
+    section: SectionAnalysis,
+    signal?: AbortSignal,
+  ): LayoutDecision {
+    this.checkAbort(signal);
+    // Rules may read the section's complexity and tone, and both set the density
+    const density = densityFor(section) ?? '';
+    const key = `${segmentId(segment)}|${section.complexity}|${section.tone}|${density}`;
+    const cached = this.layoutsCache.get(key);
+    if (cached) return cached;
+    try {
+      const decision = this.layout.decide(segment.text, segment, section);
+      this.layoutsCache.set(key, decision);
+      return decision;
     } catch (e) {
-      this.logger?.error?.('orchestrator failed', { error: String(e) });
-      report('error', 100, (e as Error).message);
-      return err(e as Error);
+      this.logger?.warn?.('layout decide failed, using default', {
+        index: segment.index,
+        error: String(e),
+      });
+      return {
+        type: 'default',
+        params: { columns: 1, variant: 'center' },
+        rationale: 'fallback-default',
+        score: 0,
+      };
+    }
+  }
+
+  /**
+   * Composes a segment unless it is unchanged. A slide found in the previous deck under the same
+   * slide id is kept verbatim (including manual edits); otherwise a slide composed in an
+   * earlier run with the same decision and theme is reused.
+   */
+  private composeSegment(
+    segment: DocumentSegment,
+    id: string,
+    decision: LayoutDecision,
+    theme: ThemeDecision,
+    ctx: {
+      previous: Map<string, string>;
+      reuse: SegmentReuseMetrics;
+      render: SlideRenderOptions;
+    },
+  ): string {
+    const kept = ctx.previous.get(id);
+    if (kept) {
+      ctx.reuse.preserved += 1;
+      return kept;
+    }
+    const cached = this.slidesCache.get(id);
+    if (cached) {
+      ctx.reuse.cached += 1;
+      return cached;
     }
+    const result = this.composer.composeSlides([segment.text], [decision], theme, [id], ctx.render);
+    if (!result.ok) throw result.error;
+    this.slidesCache.set(id, result.value[0]);
+    ctx.reuse.composed += 1;
+    return result.value[0];
+  }
+
+  /** How this run differs from the one that wrote the previous deck; undefined without one. */
+  private fingerprintChanges(
+    ctx: PipelineContext,
+    current: GenerationFingerprint,
+  ): string[] | undefined {
+    const previous = ctx.input.previousDeck ? readFingerprint(ctx.input.previousDeck) : undefined;
+    return previous ? compareFingerprints(previous, current) : undefined;
+  }
+
+  /**
+   * Whether the previous deck was written by a differently configured run. A seed derived from
+   * the note changes with every edit, so only an explicitly set seed counts.
+   */
+  private reconfigured(ctx: PipelineContext): boolean {
+    const previous = ctx.input.previousDeck ? readFingerprint(ctx.input.previousDeck) : undefined;
+    if (!previous) return false;
+    const current = { ...this.fingerprint(ctx), seed: ctx.input.seed ?? previous.seed };
+    return compareFingerprints(previous, current).length > 0;
+  }
+
+  /** What produced the deck of a run: its settings, the templates, adapters called and seed. */
+  private fingerprint(ctx: PipelineContext): GenerationFingerprint {
+    const { input } = ctx;
+    return createFingerprint({
+      settings: {
+        maxSlides: input.maxSlides,
+        preferredTheme: input.preferredTheme,
+        theme: input.theme,
+        layoutStrategy: input.layoutStrategy ?? 'auto',
+        transition: input.transition ?? 'none',
+        language: input.language,
+        overflow: input.overflow,
+        sourceNotes: input.sourceNotes,
+        deck: input.deck,
+        title: input.title,
+        structure: input.structure,
+        condense: input.condense,
+        lexicons: input.lexicons,
+      },
+      templates: this.structure.templateVersions(),
+      adapters: ctx.adapters,
+      seed: ctx.seed,
+    });
   }
 
   private checkAbort(signal?: AbortSignal): void {
     if (signal?.aborted) {
-      throw new Error('aborted');
+      throw new GenerationCancelledError();
     }
   }
 }
 
-function splitIntoParagraphs(md: string): string[] {
-  return md
-    .split(/\n{2,}/)
-    .map((s) => s.trim())
-    .filter((s) => s.length > 0);
+function deckOptions(input: OrchestratorInput, fingerprint: GenerationFingerprint): DeckOptions {
+  return { ...input.deck, transition: input.transition, fingerprint };
+}
+
+function adapterId(generator: DeckDrafter): string {
+  return generator.info ? `${generator.info.id}@${generator.info.version}` : 'text-generator';
+}
+
+// An adapter is listed once per run however many calls it served
+function recordAdapter(ctx: PipelineContext, id: string): void {
+  if (!ctx.adapters.includes(id)) ctx.adapters.push(id);
 }
 
-function hashString(input: string): string {
-  let hash = 0x811c9dc5;
-  for (let i = 0; i < input.length; i += 1) {
-    hash ^= input.charCodeAt(i);
-    hash = (hash + ((hash << 1) + (hash << 4) + (hash << 7) + (hash << 8) + (hash << 24))) >>> 0;
+async function outcome(
+  events: AsyncIterable<OrchestratorEvent>,
+): Promise<Result<OrchestratorOutput, Error>> {
+  for await (const event of events) {
+    if (event.type === 'done') return ok(event.output);
+    if (event.type === 'error') return err(event.error);
   }
-  return hash.toString(16);
+  return err(new Error('pipeline ended without a result'));
+}
+
+const DRAFT_PROGRESS = 50;
+
+function isAbort(e: unknown): boolean {
+  return (
+    e instanceof GenerationCancelledError || (e instanceof AdapterError && e.code === 'ABORTED')
+  );
 }
 
+// Drafted lines come from a model: drop heading markers, list numbering and wrapping quotes
+function cleanDraftLine(line: string): string {
+  return line
+    .replace(/^\s*(?:#+|\d+[.)])\s*/, '')
+    .replace(/^["'“]+|["'”]+$/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Inline directives pin the layout and options of their slide ahead of the rule engine and the
+ * layout strategy.
+ */
+function applyDirectives(
+  segments: DocumentSegment[],
+  decisions: LayoutDecision[],
+): LayoutDecision[] {
+  return decisions.map((decision, i) => {
+    const directive = segments[i].directive;
+    if (!directive || !hasLayoutOptions(directive)) return decision;
+    const base = directive.layout
+      ? decisionForLayout(directive.layout, segments[i].text, USER_DIRECTIVE)
+      : decision;
+    const params = { ...base.params };
+    if (decision.params.density) params.density = decision.params.density;
+    if (directive.variant) params.variant = directive.variant;
+    if (directive.columns) params.columns = directive.columns;
+    if (directive.transition === 'none') delete params.transition;
+    else if (directive.transition) params.transition = directive.transition;
+    return { ...base, params, rationale: USER_DIRECTIVE };
+  });
+}
+
+const USER_DIRECTIVE = 'user-directive';
+
+function hasLayoutOptions(directive: SlideDirective): boolean {
+  return Boolean(
+    directive.layout || directive.variant || directive.columns || directive.transition,
+  );
+}
+
+// Directives are part of the identity so editing them recomposes an otherwise unchanged slide
+function segmentId(segment: DocumentSegment): string {
+  const directive = segment.directive ? JSON.stringify(segment.directive) : '';
+  return hashString(`${segment.text}${directive}`);
+}
+
+/**
+ * Identity of a composed slide: its segment plus everything the slide is rendered with, so a
+ * slide kept from the previous deck never disagrees with the theme, layout or render options of
+ * the deck it lands in.
+ */
+function slideId(
+  segment: DocumentSegment,
+  decision: LayoutDecision,
+  theme: ThemeDecision,
+  render: SlideRenderOptions,
+): string {
+  return hashString(
+    `${segmentId(segment)}|${slideClasses(theme)}|${stableStringify(decision)}|${stableStringify(
+      render,
+    )}`,
+  );
+}
+
+const FALLBACK_THEME: ThemeDecision = {
+  name: 'General Neutral',
+  colors: {
+    primary: '#4C7CF3',
+    secondary: '#A3B1DA',
+    background: '#FFFFFF',
+    text: '#1A1A1A',
+  },
+  fonts: { heading: 'Inter', body: 'Inter' },
+  rationale: 'fallback',
+  modifiers: { spacing: 'comfortable', emphasis: 'low', animations: 'none' },
+};
+
 function fallbackAnalysis(text: string): ContentAnalysis {
+  const unsure = { score: 0, evidence: [] };
   return {
+    language: 'en',
     audience: 'general',
     formalityScore: 5,
     domain: 'general',
@@ -221,5 +1240,13 @@ function fallbackAnalysis(text: string): ContentAnalysis {
     suggestedSlideCount: Math.max(3, Math.min(40, Math.round(text.split(/\s+/).length / 120))),
     keyTopics: [],
     tone: 'formal',
+    confidence: {
+      language: unsure,
+      audience: unsure,
+      domain: unsure,
+      purpose: unsure,
+      complexity: unsure,
+      tone: unsure,
+    },
   };
 }
@@ -0,0 +1,153 @@
+import type { ContentAnalysis } from './AnalyzerService';
+import type { DocumentSegment } from './DocumentSegmenter';
+import { QualityAssuranceService } from './QualityAssuranceService';
+import { topicsIn } from './Keyphrases';
+
+/**
+ * Fits a note into the slide budget (`maxSlides`) by folding low-value segments into a
+ * neighbour instead of cutting the end of the note off.
+ */
+
+export interface FoldedSection {
+  into: string; // label of the segment that absorbed the others
+  folded: string[]; // labels of the segments merged into it
+}
+
+export interface FoldReport {
+  limit: number;
+  segments: number; // before folding
+  merges: FoldedSection[];
+  condensed: string[]; // merged segments shortened through the text generator
+  dropped: string[]; // only when protected segments alone exceed the limit
+}
+
+export interface FoldResult {
+  segments: DocumentSegment[];
+  report: FoldReport;
+}
+
+interface WorkItem {
+  segment: DocumentSegment;
+  value: number;
+  folded: string[];
+}
+
+/**
+ * How much a segment carries: overlap with the note's key topics, plus content density and
+ * issues as measured by the quality checks. Title segments and segments pinned by a directive
+ * are protected and never folded.
+ */
+export function segmentValue(
+  segment: DocumentSegment,
+  analysis: ContentAnalysis,
+  qa: QualityAssuranceService = new QualityAssuranceService(),
+): number {
+  if (segment.heading?.level === 1 || segment.directive?.layout) return Infinity;
+  const totalCount = analysis.keyTopics.reduce((sum, t) => sum + t.count, 0) || 1;
+  const overlap = topicsIn(segment.text, analysis.keyTopics).reduce(
+    (sum, t) => sum + t.count / totalCount,
+    0,
+  );
+  const quality = qa.analyze([segment.text]);
+  if (!quality.ok) return overlap;
+  const { metrics, issues } = quality.value.report;
+  const density = Math.min(metrics.avgLinesPerSlide, 8) / 8;
+  const warnings = issues.filter((i) => i.severity !== 'info').length;
+  return overlap * 2 + density - warnings * 0.25;
+}
+
+/**
+ * Merges the lowest-value segment into the neighbour sharing most key topics with it, until at
+ * most `limit` segments remain. The merged segment keeps the identity (heading, directive) of
+ * the neighbour; its content stays in document order, earlier segment first.
+ */
+export function foldSegments(
+  segments: DocumentSegment[],
+  limit: number,
+  analysis: ContentAnalysis,
+  qa: QualityAssuranceService = new QualityAssuranceService(),
+): FoldResult {
+  const report: FoldReport = {
+    limit,
+    segments: segments.length,
+    merges: [],
+    condensed: [],
+    dropped: [],
+  };
+  const items: WorkItem[] = segments.map((segment) => ({
+    segment,
+    value: segmentValue(segment, analysis, qa),
+    folded: [],
+  }));
+  while (items.length > Math.max(1, limit)) {
+    const lowest = lowestValueIndex(items);
+    if (lowest < 0) {
+      report.dropped = items.splice(Math.max(1, limit)).map((item) => segmentLabel(item.segment));
+      break;
+    }
+    const target = neighbourFor(items, lowest, analysis);
+    const absorbed = items[lowest];
+    const survivor = items[target];
+    const absorbedFirst = lowest < target;
+    const merged = mergeSegments(survivor.segment, absorbed.segment, absorbedFirst);
+    const folded = [segmentLabel(absorbed.segment), ...absorbed.folded];
+    items.splice(Math.min(target, lowest), 2, {
+      segment: merged,
+      value: segmentValue(merged, analysis, qa),
+      folded: absorbedFirst ? [...folded, ...survivor.folded] : [...survivor.folded, ...folded],
+    });
+  }
+  report.merges = items
+    .filter((item) => item.folded.length > 0)
+    .map((item) => ({ into: segmentLabel(item.segment), folded: item.folded }));
+  return { segments: items.map((item) => item.segment), report };
+}
+
+export function segmentLabel(segment: DocumentSegment): string {
+  if (segment.heading) return segment.heading.title;
+  const words = segment.text.replace(/\s+/g, ' ').trim();
+  return words.length > 40 ? `${words.slice(0, 40)}…` : words;
+}
+
+function lowestValueIndex(items: WorkItem[]): number {
+  let lowest = -1;
+  items.forEach((item, i) => {
+    if (item.value === Infinity) return;
+    if (lowest < 0 || item.value < items[lowest].value) lowest = i;
+  });
+  return lowest;
+}
+
+function neighbourFor(items: WorkItem[], index: number, analysis: ContentAnalysis): number {
+  if (index === 0) return 1;
+  if (index === items.length - 1) return index - 1;
+  const topics = topicSet(items[index].segment, analysis);
+  const before = sharedCount(topics, topicSet(items[index - 1].segment, analysis));
+  const after = sharedCount(topics, topicSet(items[index + 1].segment, analysis));
+  return after > before ? index + 1 : index - 1;
+}
+
+function mergeSegments(
+  survivor: DocumentSegment,
+  absorbed: DocumentSegment,
+  absorbedFirst: boolean,
+): DocumentSegment {
+  const [first, second] = absorbedFirst ? [absorbed, survivor] : [survivor, absorbed];
+  return {
+    ...survivor,
+    blocks: [...first.blocks, ...second.blocks],
+    text: `${first.text}\n\n${second.text}`,
+  };
+}
+
+function topicSet(segment: DocumentSegment, analysis: ContentAnalysis): Set<string> {
+  return new Set(topicsIn(segment.text, analysis.keyTopics).map((t) => t.term));
+}
+
+function sharedCount(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  a.forEach((term) => {
+    if (b.has(term)) shared += 1;
+  });
+  return shared;
+}
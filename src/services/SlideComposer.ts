@@ -1,31 +1,76 @@
-import { LayoutDecision } from './LayoutEngine';
+import { parseBlocks } from './DocumentSegmenter';
+import {
+  ComparisonSide,
+  LayoutDecision,
+  SlideDensity,
+  isQuotation,
+  prosConsParts,
+  tableColumns,
+} from './LayoutEngine';
+import { fenceMarker } from './MarkdownSections';
+import type { OverflowMode } from './SlideTypes';
 import { ThemeDecision } from './StyleService';
 import { normalizeVaultRelativePath } from '../security/SecureFileOperations';
 import { Result, ok, err } from '../types/Result';
 
 export type LayoutKind = 'title' | 'content' | 'split' | 'image-focus' | 'comparison';
 
-export interface SlideComposerOptions {
+export type { OverflowMode };
+
+export interface SlideRenderOptions {
+  overflow?: OverflowMode; // default 'notes'
+  sourceNotes?: boolean; // add the full source text of each slide to its speaker notes
+}
+
+export interface SlideComposerOptions extends SlideRenderOptions {
   maxLinesPerSlide?: number;
 }
 
+const DENSITY_FACTORS: Record<SlideDensity, number> = { sparse: 0.6, dense: 1.25 };
+
+// Rendered slide body; `limit` is how many of its lines fit on one slide
+interface SlideBody {
+  lines: string[];
+  limit: number;
+}
+
 export class SlideComposer {
   private readonly maxLines: number;
+  private readonly defaults: Required<SlideRenderOptions>;
 
   constructor(options: SlideComposerOptions = {}) {
     this.maxLines = options.maxLinesPerSlide ?? 20;
+    this.defaults = {
+      overflow: options.overflow ?? 'notes',
+      sourceNotes: options.sourceNotes ?? false,
+    };
   }
 
+  get maxLinesPerSlide(): number {
+    return this.maxLines;
+  }
+
+  /**
+   * Renders one slide per paragraph. When `segmentIds` are given, each slide is prefixed with
+   * a segment marker so a later run can recognize (and keep) slides whose source is unchanged.
+   * With overflow 'split' a paragraph may render as several slides in one returned entry.
+   */
   composeSlides(
     paragraphs: string[],
     decisions: LayoutDecision[],
     theme: ThemeDecision,
+    segmentIds?: string[],
+    options: SlideRenderOptions = {},
   ): Result<string[], Error> {
     try {
       const validation = validateSlidesExtendedCompatibility();
       if (!validation.ok) {
         return err(validation.error);
       }
+      const render: Required<SlideRenderOptions> = {
+        overflow: options.overflow ?? this.defaults.overflow,
+        sourceNotes: options.sourceNotes ?? this.defaults.sourceNotes,
+      };
       const slides: string[] = [];
       for (let i = 0; i < paragraphs.length; i += 1) {
         const p = safeText(paragraphs[i]);
@@ -35,7 +80,9 @@ export class SlideComposer {
           rationale: 'fallback',
           score: 0,
         };
-        slides.push(this.renderSlide(p, d, theme));
+        const slide = this.renderSlide(p, d, theme, render);
+        const id = segmentIds?.[i];
+        slides.push(id ? `${segmentMarker(id)}\n${slide}` : slide);
       }
       return ok(slides);
     } catch (e) {
@@ -43,35 +90,100 @@ export class SlideComposer {
     }
   }
 
-  private renderSlide(text: string, decision: LayoutDecision, theme: ThemeDecision): string {
-    const header = this.renderHeader(theme);
+  private renderSlide(
+    text: string,
+    decision: LayoutDecision,
+    theme: ThemeDecision,
+    options: Required<SlideRenderOptions>,
+  ): string {
+    const header = `${this.renderHeader(theme, decision)}${renderTransition(decision)}`;
+    // Keep a leading section heading above the layout-specific body
+    const { heading, body } = splitLeadingHeading(text);
+    let prefix = heading ? `${heading}\n` : '';
+    if (decision.type === 'title') prefix = `# ${extractTitle(text)}\n`;
+    const { lines, limit } = this.renderBody(body, decision);
+    const pages = paginate(lines, limit);
+    const notes = options.sourceNotes ? contentLines(text) : [];
+    if (options.overflow === 'notes' && pages.length > 1) {
+      notes.unshift(...overflowLines(lines, limit));
+    }
+    const slides = options.overflow === 'split' ? pages : pages.slice(0, 1);
+    return slides
+      .map((page, i) => {
+        const slide = `${header}\n---\n${prefix}${page.join('\n')}`.trimEnd();
+        return i === 0 && notes.length > 0 ? `${slide}\n\nnote:\n${notes.join('\n')}` : slide;
+      })
+      .join('\n\n');
+  }
+
+  private renderBody(body: string, decision: LayoutDecision): SlideBody {
     switch (decision.type) {
       case 'title':
-        return `${header}\n---\n# ${extractTitle(text)}`;
+        return { lines: body ? contentLines(body) : [], limit: 3 };
       case 'comparison':
-        return `${header}\n---\n${renderComparison(text)}`;
+        return { lines: renderComparison(body), limit: this.linesFor(decision) };
       case 'quote':
-        return `${header}\n---\n${renderQuote(text)}`;
+        return { lines: renderQuote(body), limit: this.linesFor(decision) };
       case 'image':
-        return `${header}\n---\n${renderImage(text, decision)}`;
+        return renderImage(body, decision);
       case 'list':
-        return `${header}\n---\n${renderList(text, this.maxLines)}`;
-      // 5.2.7: support basic transition markers via decision.params.variant
-      // Using Slides Extended data attribute in HTML comment
+        return { lines: listLines(body), limit: this.linesFor(decision) };
       default:
-        return `${header}${renderTransition(decision)}\n---\n${renderContent(text, this.maxLines)}`;
+        return { lines: contentLines(body), limit: this.linesFor(decision) };
     }
   }
 
-  private renderHeader(theme: ThemeDecision): string {
-    const classes = [
-      `theme-${slug(theme.name)}`,
-      `spacing-${theme.modifiers.spacing}`,
-      `emphasis-${theme.modifiers.emphasis}`,
-      `anim-${theme.modifiers.animations}`,
-    ];
-    return `<!-- slide:class=${classes.join(' ')} -->`;
+  // Lines of a text slide: fewer on sparse sections, more on dense ones
+  private linesFor(decision: LayoutDecision): number {
+    const density = decision.params.density;
+    return density
+      ? Math.max(1, Math.round(this.maxLines * DENSITY_FACTORS[density]))
+      : this.maxLines;
   }
+
+  private renderHeader(theme: ThemeDecision, decision: LayoutDecision): string {
+    const density = decision.params.density ? ` density-${decision.params.density}` : '';
+    return `<!-- slide:class=${slideClasses(theme)}${density} -->`;
+  }
+}
+
+/** CSS classes carrying a theme decision onto a slide. */
+export function slideClasses(theme: ThemeDecision): string {
+  return [
+    `theme-${slug(theme.name)}`,
+    `spacing-${theme.modifiers.spacing}`,
+    `emphasis-${theme.modifiers.emphasis}`,
+    `anim-${theme.modifiers.animations}`,
+  ].join(' ');
+}
+
+const SEGMENT_MARKER_RE = /<!-- smart-slides:segment=([0-9a-f]+) -->/;
+
+/** Hidden comment identifying the source segment of a composed slide. */
+export function segmentMarker(id: string): string {
+  return `<!-- smart-slides:segment=${id} -->`;
+}
+
+/**
+ * Splits a previously written deck into slides keyed by their segment marker. Each slide runs
+ * from its marker to the next one, so manual edits within a slide are carried along.
+ */
+export function extractSegmentSlides(deck: string): Map<string, string> {
+  const found: Array<{ id: string; start: number }> = [];
+  let m: RegExpExecArray | null;
+  const re = new RegExp(SEGMENT_MARKER_RE.source, 'g');
+  while ((m = re.exec(deck))) found.push({ id: m[1], start: m.index });
+  const slides = new Map<string, string>();
+  found.forEach((f, i) => {
+    const end = i + 1 < found.length ? found[i + 1].start : deck.length;
+    // In a written deck the separator before the next slide ends this one
+    const slide = deck
+      .slice(f.start, end)
+      .trim()
+      .replace(/\n+---$/, '');
+    if (!slides.has(f.id)) slides.set(f.id, slide);
+  });
+  return slides;
 }
 
 function validateSlidesExtendedCompatibility(): Result<true, Error> {
@@ -95,62 +207,202 @@ function safeText(s: string): string {
     .trim();
 }
 
+function splitLeadingHeading(text: string): { heading: string; body: string } {
+  const m = /^(#{1,6})\s+(.+)(?:\n|$)/.exec(text);
+  if (!m) return { heading: '', body: text };
+  return { heading: `${m[1]} ${escapeMd(m[2].trim())}`, body: text.slice(m[0].length).trim() };
+}
+
 function extractTitle(text: string): string {
-  const m = /^\s*#\s+(.+)/m.exec(text);
+  const m = /^\s*#{1,6}\s+(.+)/m.exec(text);
   if (m) return escapeMd(m[1]).slice(0, 120);
   return escapeMd(text.split(/\n/)[0]).slice(0, 120);
 }
 
-function renderComparison(text: string): string {
-  const left: string[] = [];
-  const right: string[] = [];
-  const lines = text.split(/\n/).map((l) => l.trim());
-  for (const l of lines) {
-    if (/^pros\s*:?-?/i.test(l)) left.push(`- ${escapeMd(l.replace(/^pros\s*:?-?/i, '').trim())}`);
-    else if (/^cons\s*:?-?/i.test(l))
-      right.push(`- ${escapeMd(l.replace(/^cons\s*:?-?/i, '').trim())}`);
+/**
+ * Sets labelled pros and cons, and two-column tables, side by side. List items following a
+ * bare `Pros:` or `Cons:` line join that side; every other block is kept as it is.
+ */
+function renderComparison(text: string): string[] {
+  const out: string[] = [];
+  let columns: Record<ComparisonSide, string[]> | null = null;
+  let side: ComparisonSide | null = null;
+  const flush = () => {
+    if (columns) out.push(splitColumns(columns.pros, columns.cons));
+    columns = null;
+    side = null;
+  };
+  for (const block of parseBlocks(text)) {
+    const table = tableColumns(block);
+    const lines = block.text.split('\n').filter((l) => l.trim().length > 0);
+    const labelled = lines.some((l) => prosConsParts(l) !== null);
+    if (table) {
+      flush();
+      const [[leftHead, ...left], [rightHead, ...right]] = table;
+      out.push(splitColumns(left, right, [leftHead, rightHead]));
+    } else if (labelled || (side && block.kind === 'list')) {
+      for (const line of lines) {
+        const parts = prosConsParts(line);
+        if (parts) {
+          columns ??= { pros: [], cons: [] };
+          for (const part of parts) {
+            side = part.side;
+            if (part.text) columns[side].push(part.text);
+          }
+        } else if (columns && side) {
+          columns[side].push(line.replace(/^\s*(?:[-*+]|\d+[.)])\s+/, ''));
+        } else {
+          out.push(...contentLines(line));
+        }
+      }
+    } else {
+      flush();
+      out.push(...contentLines(block.text));
+    }
   }
-  const leftCol = left.length ? left.join('\n') : '- —';
-  const rightCol = right.length ? right.join('\n') : '- —';
-  return `::: split\n${leftCol}\n:::\n${rightCol}\n:::`;
+  flush();
+  return out;
+}
+
+// Two columns of bullets, each optionally headed (e.g. by a table header cell)
+function splitColumns(left: string[], right: string[], heads?: [string, string]): string {
+  const column = (items: string[], head?: string) => {
+    const bullets = items.length ? items.map((item) => `- ${escapeMd(item)}`) : ['- —'];
+    return [...(head ? [`**${escapeMd(head)}**`] : []), ...bullets].join('\n');
+  };
+  return `::: split\n${column(left, heads?.[0])}\n:::\n${column(right, heads?.[1])}\n:::`;
 }
 
-function renderQuote(text: string): string {
-  const m = /^\s*>\s+(.+)/m.exec(text);
-  const content = m ? m[1] : text;
-  return `> ${escapeMd(content)}`;
+/**
+ * Renders quote blocks and quoted paragraphs as quotes, keeping every other block. Without
+ * either (e.g. a layout pinned by a directive) the first paragraph is quoted.
+ */
+function renderQuote(text: string): string[] {
+  const blocks = parseBlocks(text);
+  const quoted = blocks.some((b) => b.kind === 'quote' || isQuotation(b));
+  let first = !quoted;
+  return blocks.flatMap((block) => {
+    if (block.kind === 'quote' || isQuotation(block) || (first && block.kind === 'paragraph')) {
+      first = false;
+      return block.text.split('\n').map((l) => `> ${escapeMd(l.replace(/^\s*>\s?/, ''))}`);
+    }
+    return contentLines(block.text);
+  });
 }
 
-function renderImage(text: string, decision: LayoutDecision): string {
+function renderImage(text: string, decision: LayoutDecision): SlideBody {
   const images = (decision.params.images ?? []).filter(Boolean);
   if (images.length > 0) {
     const refs = images.map((src) => safeImageRef(src)).filter((s) => s.length > 0);
-    return refs.map((src) => `![](${src})`).join('\n');
+    return { lines: refs.map((src) => `![](${src})`), limit: Infinity };
   }
   const firstUrl = (/(https?:\/\/\S+\.(?:png|jpe?g|gif|svg))/i.exec(text) || [])[0];
-  if (firstUrl) {
-    const ref = safeImageRef(firstUrl);
-    return ref ? `![](${ref})` : renderContent(text, 10);
+  const ref = firstUrl ? safeImageRef(firstUrl) : '';
+  return ref
+    ? { lines: [`![](${ref})`], limit: Infinity }
+    : { lines: contentLines(text), limit: 10 };
+}
+
+function listLines(text: string): string[] {
+  // Normalize bullet markers but keep numbering and indentation so ordered and nested lists
+  // survive; keep surrounding prose
+  const lines = text.split(/\n/).filter((l) => l.trim().length > 0);
+  return lines.map((l) =>
+    /^\s*([-*+]\s+|\d+[.)]\s+)/.test(l)
+      ? l.replace(/^(\s*)[-*+]\s+/, '$1- ')
+      : escapeLine(l.trim()),
+  );
+}
+
+// Escapes a line of prose, keeping a leading quote marker
+function escapeLine(line: string): string {
+  const marker = /^\s*(?:>\s?)+/.exec(line)?.[0] ?? '';
+  return `${marker}${escapeMd(line.slice(marker.length))}`;
+}
+
+function contentLines(text: string): string[] {
+  // Fenced code is passed through verbatim; prose is escaped and blank lines dropped
+  const out: string[] = [];
+  let fence: string | null = null;
+  for (const line of text.split(/\n/)) {
+    const marker = fenceMarker(line);
+    if (marker && (fence === null || fence === marker)) {
+      fence = fence === null ? marker : null;
+      out.push(line);
+    } else if (fence !== null) {
+      out.push(line);
+    } else if (line.trim().length > 0) {
+      out.push(escapeLine(line));
+    }
   }
-  return renderContent(text, 10);
+  return out;
 }
 
-function renderList(text: string, maxLines: number): string {
-  const lines = text.split(/\n/).filter((l) => /^\s*([-*+]\s+|\d+\.\s+)/.test(l));
-  const normalized = lines.map((l) => l.replace(/^\s*(?:[-*+]\s+|\d+\.\s+)/, '- '));
-  return normalized.slice(0, maxLines).join('\n');
+/** Returns the opening line of the fence still open after `lines`, if any. */
+function openFenceAfter(lines: string[]): string | null {
+  let opener: string | null = null;
+  for (const line of lines) {
+    const marker = fenceMarker(line);
+    if (!marker) continue;
+    if (opener === null) opener = line;
+    else if (fenceMarker(opener) === marker) opener = null;
+  }
+  return opener;
 }
 
-function renderContent(text: string, maxLines: number): string {
-  const lines = text.split(/\n/).filter((l) => l.trim().length > 0);
-  return lines.slice(0, maxLines).map(escapeMd).join('\n');
+/**
+ * Splits body lines into slide-sized pages. A code fence cut between pages is closed at the end
+ * of one page and reopened at the start of the next; a fence whose closing line alone is left
+ * over stays on its page rather than leaving an empty block behind.
+ */
+function paginate(lines: string[], limit: number): string[][] {
+  const pages: string[][] = [];
+  let page: string[] = [];
+  for (const line of lines) {
+    if (page.length >= limit && !closesOpenFence(page, line)) {
+      const opener = openFenceAfter(page);
+      if (opener) page.push(fenceMarker(opener) ?? '```');
+      pages.push(page);
+      page = opener ? [opener] : [];
+    }
+    page.push(line);
+  }
+  const opener = openFenceAfter(page);
+  if (opener) page.push(fenceMarker(opener) ?? '```');
+  pages.push(page);
+  return pages;
+}
+
+/** Lines past the first page, reopening a code fence the cut fell into. */
+function overflowLines(lines: string[], limit: number): string[] {
+  const cut = closesOpenFence(lines.slice(0, limit), lines[limit] ?? '') ? limit + 1 : limit;
+  const opener = openFenceAfter(lines.slice(0, cut));
+  const rest = lines.slice(cut);
+  return opener ? [opener, ...rest] : rest;
 }
 
-function escapeMd(s: string): string {
+function closesOpenFence(page: string[], line: string): boolean {
+  const opener = openFenceAfter(page);
+  return opener !== null && fenceMarker(line) === fenceMarker(opener);
+}
+
+// Math ($…$ or $$…$$) and inline code spans are left as written
+const VERBATIM_RE = /(\$\$[\s\S]+?\$\$|\$[^\s$](?:[^$\n]*[^\s$])?\$(?!\d)|`[^`\n]+`)/;
+
+export function escapeMd(s: string): string {
   return s
     .normalize('NFC')
     .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F]/g, '')
-    .replace(/[\*_`\[\]<>]/g, (c) => `\\${c}`);
+    .split(VERBATIM_RE)
+    .map((part, i) =>
+      i % 2 === 1 ? verbatim(part) : part.replace(/[\*_`\[\]<>]/g, (c) => `\\${c}`),
+    )
+    .join('');
+}
+
+// Code spans never render HTML; angle brackets in math become entities, which TeX still reads
+function verbatim(part: string): string {
+  return part.startsWith('`') ? part : part.replace(/</g, '&lt;').replace(/>/g, '&gt;');
 }
 
 function slug(s: string): string {
@@ -178,8 +430,9 @@ function safeImageRef(src: string): string {
   return normalized.value.path;
 }
 
+// 5.2.7: transition markers as a Slides Extended data attribute in an HTML comment
 function renderTransition(decision: LayoutDecision): string {
-  const variant = decision.params.variant;
+  const variant = decision.params.transition ?? decision.params.variant;
   if (!variant) return '';
   // allow a limited set of transitions only
   const allowed = new Set(['fade', 'slide', 'convex', 'concave', 'zoom']);
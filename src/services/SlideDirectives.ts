@@ -0,0 +1,68 @@
+import { LayoutParams, LayoutType, SLIDE_TRANSITIONS, SlideTransition } from './SlideTypes';
+
+/**
+ * Per-slide options written in the source note, e.g.
+ * `<!-- slides: layout=comparison transition=fade -->` or `%% slides: skip %%`.
+ */
+export interface SlideDirective {
+  skip?: boolean;
+  layout?: LayoutType;
+  transition?: SlideTransition;
+  variant?: NonNullable<LayoutParams['variant']>;
+  columns?: number;
+  ignored?: string[]; // tokens that were not understood
+}
+
+const DIRECTIVE_RES = [/^\s*<!--\s*slides:(.*?)-->\s*$/i, /^\s*%%\s*slides:(.*?)%%\s*$/i];
+const LAYOUTS: readonly LayoutType[] = ['title', 'comparison', 'quote', 'list', 'image', 'default'];
+const VARIANTS: readonly string[] = ['left', 'right', 'center', 'full'];
+
+export function isDirectiveLine(line: string): boolean {
+  return DIRECTIVE_RES.some((re) => re.test(line));
+}
+
+/** Parses a directive line; returns null when the line is not a directive. */
+export function parseDirective(line: string): SlideDirective | null {
+  const body = DIRECTIVE_RES.map((re) => re.exec(line)).find((m) => m)?.[1];
+  if (body === undefined) return null;
+  const directive: SlideDirective = {};
+  for (const token of body.trim().split(/\s+/).filter(Boolean)) {
+    if (!applyToken(directive, token)) directive.ignored = [...(directive.ignored ?? []), token];
+  }
+  return directive;
+}
+
+function applyToken(directive: SlideDirective, token: string): boolean {
+  const [rawKey, rawValue] = token.split('=', 2);
+  const key = rawKey.toLowerCase();
+  const value = (rawValue ?? '').toLowerCase();
+  if (rawValue === undefined) {
+    if (key !== 'skip') return false;
+    directive.skip = true;
+    return true;
+  }
+  if (key === 'layout' && (LAYOUTS as readonly string[]).includes(value)) {
+    directive.layout = value as LayoutType;
+  } else if (key === 'transition' && (SLIDE_TRANSITIONS as readonly string[]).includes(value)) {
+    directive.transition = value as SlideTransition;
+  } else if (key === 'variant' && VARIANTS.includes(value)) {
+    directive.variant = value as SlideDirective['variant'];
+  } else if (key === 'columns' && /^[1-4]$/.test(value)) {
+    directive.columns = Number(value);
+  } else if (key === 'skip' && (value === 'true' || value === 'false')) {
+    directive.skip = value === 'true';
+  } else {
+    return false;
+  }
+  return true;
+}
+
+/** Combines directives of one slide; later ones win per option. */
+export function mergeDirectives(directives: SlideDirective[]): SlideDirective | undefined {
+  if (directives.length === 0) return undefined;
+  const merged: SlideDirective = Object.assign({}, ...directives);
+  const ignored = directives.reduce<string[]>((all, d) => all.concat(d.ignored ?? []), []);
+  if (ignored.length > 0) merged.ignored = ignored;
+  else delete merged.ignored;
+  return merged;
+}
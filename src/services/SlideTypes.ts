@@ -0,0 +1,34 @@
+/**
+ * Slide vocabulary shared by the layout engine, slide directives and generation settings. This
+ * module imports nothing, so any of them can depend on it without forming an import cycle.
+ */
+
+export type LayoutType = 'title' | 'comparison' | 'quote' | 'list' | 'image' | 'default';
+
+// Fewer (sparse) or more (dense) lines per slide than the composer's default
+export type SlideDensity = 'sparse' | 'dense';
+
+export interface LayoutParams {
+  columns?: number;
+  variant?: 'left' | 'right' | 'center' | 'full';
+  images?: string[];
+  transition?: string; // Slides Extended data-transition for the slide
+  density?: SlideDensity; // from the section's analysis; unset for the default density
+}
+
+export type SlideTransition = 'none' | 'fade' | 'slide' | 'convex' | 'concave' | 'zoom';
+
+export const SLIDE_TRANSITIONS: readonly SlideTransition[] = [
+  'none',
+  'fade',
+  'slide',
+  'convex',
+  'concave',
+  'zoom',
+];
+
+/**
+ * What happens to content past the slide line limit: kept as Slides Extended speaker notes
+ * (`note:`) on the slide, or continued on extra slides.
+ */
+export type OverflowMode = 'notes' | 'split';
@@ -0,0 +1,128 @@
+import type { ContentAnalysis, Purpose } from './AnalyzerService';
+import type { DocumentSegment } from './DocumentSegmenter';
+import type { ThemeDecision } from './StyleService';
+import type { Template } from './TemplateService';
+import { escapeMd, slideClasses } from './SlideComposer';
+import { Result, ok } from '../types/Result';
+
+/**
+ * Slides framing a generated deck: a title slide before the content, an agenda after it and a
+ * closing (Q&A) slide at the end. Each one is rendered from its `deck:*` template. The templates
+ * are filled by plain substitution rather than through TemplateService, which keeps its schema
+ * validation out of the plugin bundle; the tests validate them against the template schema.
+ */
+
+export type StructuralSlideKind = 'title' | 'agenda' | 'closing';
+
+export type StructuralSlideOptions = Partial<Record<StructuralSlideKind, boolean>>;
+
+export interface StructuralSlideContext {
+  deckTitle?: string; // e.g. the note name
+  analysis: ContentAnalysis;
+  segments: DocumentSegment[];
+  theme: ThemeDecision;
+}
+
+export const DECK_TEMPLATES: Record<StructuralSlideKind, Template> = {
+  title: {
+    id: 'deck:title',
+    version: '1.0.0',
+    engineRange: '>=1.0.0',
+    layout: 'title',
+    variables: ['slideClass', 'title', 'subtitle'],
+    content: '<!-- slide:class={{slideClass}} -->\n---\n# {{title}}\n\n{{subtitle}}',
+  },
+  agenda: {
+    id: 'deck:agenda',
+    version: '1.0.0',
+    engineRange: '>=1.0.0',
+    layout: 'list',
+    variables: ['slideClass', 'heading', 'items'],
+    content: '<!-- slide:class={{slideClass}} -->\n---\n## {{heading}}\n\n{{items}}',
+  },
+  closing: {
+    id: 'deck:closing',
+    version: '1.0.0',
+    engineRange: '>=1.0.0',
+    layout: 'title',
+    variables: ['slideClass', 'heading', 'message'],
+    content: '<!-- slide:class={{slideClass}} -->\n---\n# {{heading}}\n\n{{message}}',
+  },
+};
+
+const PURPOSE_SUBTITLES: Record<Purpose, string> = {
+  inform: 'Overview',
+  persuade: 'Proposal',
+  educate: 'Introduction',
+  inspire: 'Vision',
+};
+
+const MAX_AGENDA_ITEMS = 7;
+
+export function structuralSlideCount(options: StructuralSlideOptions = {}): number {
+  return (['title', 'agenda', 'closing'] as const).filter((kind) => options[kind]).length;
+}
+
+export class StructuralSlideBuilder {
+  constructor(private readonly templates: Record<StructuralSlideKind, Template> = DECK_TEMPLATES) {}
+
+  templateVersions(): Record<string, string> {
+    const versions: Record<string, string> = {};
+    Object.values(this.templates).forEach((tpl) => (versions[tpl.id] = tpl.version));
+    return versions;
+  }
+
+  /**
+   * Renders one structural slide; resolves to null when the content has nothing to show on it
+   * (an agenda without sections or topics, a title slide for a deck that opens with its own).
+   */
+  build(kind: StructuralSlideKind, context: StructuralSlideContext): Result<string | null, Error> {
+    const values = this.values(kind, context);
+    if (!values) return ok(null);
+    const text = fillTemplate(this.templates[kind].content, {
+      slideClass: slideClasses(context.theme),
+      ...values,
+    });
+    return ok(text.trimEnd());
+  }
+
+  private values(
+    kind: StructuralSlideKind,
+    context: StructuralSlideContext,
+  ): Record<string, string> | null {
+    switch (kind) {
+      case 'title': {
+        if (context.segments[0]?.heading?.level === 1) return null;
+        return {
+          title: context.deckTitle?.trim() || 'Presentation',
+          subtitle: PURPOSE_SUBTITLES[context.analysis.purpose],
+        };
+      }
+      case 'agenda': {
+        const items = agendaItems(context);
+        if (items.length < 2) return null;
+        return { heading: 'Agenda', items: items.map((item) => `- ${item}`).join('\n') };
+      }
+      case 'closing':
+        return { heading: 'Questions?', message: 'Thank you' };
+    }
+  }
+}
+
+// `{{name}}` placeholders replaced by their escaped value, as TemplateService renders them
+function fillTemplate(content: string, values: Record<string, string>): string {
+  return content.replace(/\{\{\s*([a-zA-Z0-9_.-]+)\s*\}\}/g, (_, key: string) =>
+    escapeMd(values[key] ?? ''),
+  );
+}
+
+/** Top-level section titles, or the key phrases when the note has too few sections. */
+function agendaItems(context: StructuralSlideContext): string[] {
+  const headings = context.segments
+    .map((s) => s.heading)
+    .filter((h): h is NonNullable<DocumentSegment['heading']> => h !== undefined && h.level > 1);
+  const minLevel = Math.min(...headings.map((h) => h.level));
+  const sections = headings.filter((h) => h.level === minLevel).map((h) => h.title);
+  const items = sections.length >= 2 ? sections : context.analysis.keyTopics.map((t) => t.term);
+  return items.slice(0, MAX_AGENDA_ITEMS);
+}
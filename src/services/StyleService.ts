@@ -1,3 +1,5 @@
+import { LOW_CONFIDENCE } from './AnalysisTypes';
+
 export type ThemeAudience = 'business' | 'technical' | 'academic' | 'creative' | 'general';
 
 export interface ThemeModifiers {
@@ -22,11 +24,17 @@ export interface ThemeDecision {
   modifiers: ThemeModifiers;
 }
 
+export interface ThemeContext {
+  domain: string;
+  audience: string;
+  tone: string;
+}
+
 export interface ThemeRule {
   id: string;
   priority: number;
-  matches: (context: { domain: string; audience: string; tone: string }) => boolean;
-  decide: (context: { domain: string; audience: string; tone: string }) => ThemeDecision;
+  matches: (context: ThemeContext) => boolean;
+  decide: (context: ThemeContext) => ThemeDecision;
 }
 
 const THEMES: Record<string, ThemeDecision> = {
@@ -67,6 +75,17 @@ const THEMES: Record<string, ThemeDecision> = {
   },
 };
 
+type ThemeDimension = 'domain' | 'audience' | 'tone';
+
+const THEME_DIMENSIONS: readonly ThemeDimension[] = ['domain', 'audience', 'tone'];
+
+// What the analyzer reports when it found no cue at all
+const UNKNOWN_CONTEXT: Record<ThemeDimension, string> = {
+  domain: 'general',
+  audience: 'general',
+  tone: 'formal',
+};
+
 export class StyleService {
   private readonly rules: ThemeRule[];
 
@@ -77,23 +96,70 @@ export class StyleService {
     }
   }
 
-  decide(context: { domain: string; audience: string; tone: string }): ThemeDecision {
-    for (const rule of this.rules) {
-      if (rule.matches(context)) {
-        const choice = rule.decide(context);
-        // Ensure accessibility before returning
-        return ensureAccessibleTheme(choice);
-      }
-    }
-    return ensureAccessibleTheme(THEMES.generalNeutral);
+  /** A service deciding with these rules plus `rules`, e.g. the theme rules of lexicon packs. */
+  extend(rules: ThemeRule[]): StyleService {
+    return rules.length > 0 ? new StyleService([...this.rules, ...rules]) : this;
+  }
+
+  /**
+   * Picks a theme for the given context. When no rule matches, the optional `preferred`
+   * audience (e.g. the user's default theme setting) is used instead of the neutral theme.
+   */
+  decide(context: ThemeContext, preferred?: ThemeAudience): ThemeDecision {
+    return ensureAccessibleTheme(this.match(context) ?? themeForAudience(preferred ?? 'general'));
   }
 
-  decideFromAnalysis(analysis: { domain: string; audience: string; tone: string }): ThemeDecision {
-    return this.decide({
+  /**
+   * Like `decide`, but fields whose confidence is below `minConfidence` are treated as unknown,
+   * so a weak guess falls back to `preferred` instead of committing to a theme.
+   */
+  decideFromAnalysis(
+    analysis: ThemeContext & {
+      confidence?: Partial<Record<ThemeDimension, { score: number }>>;
+    },
+    preferred?: ThemeAudience,
+    minConfidence = LOW_CONFIDENCE,
+  ): ThemeDecision {
+    const context: ThemeContext = {
       domain: analysis.domain,
       audience: analysis.audience,
       tone: analysis.tone,
-    });
+    };
+    const uncertain = THEME_DIMENSIONS.filter(
+      (d) =>
+        context[d] !== UNKNOWN_CONTEXT[d] && (analysis.confidence?.[d]?.score ?? 1) < minConfidence,
+    );
+    const certain = { ...context };
+    for (const d of uncertain) certain[d] = UNKNOWN_CONTEXT[d];
+    const theme = this.decide(certain, preferred);
+    const guess = this.match(context);
+    if (this.match(certain) || !guess) return theme;
+    return {
+      ...theme,
+      rationale: `${theme.rationale}; ${uncertain.join(', ')} too uncertain for ${guess.name}`,
+    };
+  }
+
+  private match(context: ThemeContext): ThemeDecision | undefined {
+    return this.rules.find((rule) => rule.matches(context))?.decide(context);
+  }
+}
+
+/**
+ * Returns the built-in theme associated with a theme audience (used for user preferences).
+ */
+export function themeForAudience(audience: ThemeAudience): ThemeDecision {
+  switch (audience) {
+    case 'business':
+      return THEMES.businessProfessional;
+    case 'technical':
+      return THEMES.developerDark;
+    case 'academic':
+      return THEMES.academicClassic;
+    case 'creative':
+      return THEMES.creativeVibrant;
+    default:
+      return THEMES.generalNeutral;
   }
 }
 
@@ -2,6 +2,7 @@ import Ajv, { JSONSchemaType } from 'ajv';
 import { Result, ok, err } from '../types/Result';
 import { LRUCache } from '../utils/LRUCache';
 import semver from 'semver';
+import { ENGINE_VERSION } from './EngineVersion';
 
 export interface Template {
   id: string;
@@ -36,7 +37,7 @@ export interface RenderResult {
   debug?: RenderDebugInfo;
 }
 
-const ENGINE_VERSION = '1.0.0';
+export { ENGINE_VERSION };
 
 const templateSchema: JSONSchemaType<Template> = {
   $id: 'Template',
@@ -108,6 +109,13 @@ export class TemplateService {
     this.engineVersion = engineVersion;
   }
 
+  /** Id and version of every template in the set, e.g. for a generation fingerprint. */
+  versions(): Record<string, string> {
+    const versions: Record<string, string> = {};
+    Object.values(this.set.templates).forEach((tpl) => (versions[tpl.id] = tpl.version));
+    return versions;
+  }
+
   validateSet(): Result<true, Error> {
     try {
       for (const [id, tpl] of Object.entries(this.set.templates)) {
@@ -1,4 +1,4 @@
-import { AnalyzerService } from '../../services/AnalyzerService';
+import { AnalyzerService, LOW_CONFIDENCE } from '../../services/AnalyzerService';
 
 describe('AnalyzerService', () => {
   const svc = new AnalyzerService();
@@ -61,6 +61,23 @@ describe('AnalyzerService', () => {
     expect(kt[0].count).toBeGreaterThanOrEqual(2);
   });
 
+  test('frontmatter and its smart-slides overrides are not analyzed', () => {
+    const note = [
+      '---',
+      'tags: [slides, technical]',
+      'smart-slides:',
+      '  theme: technical',
+      '  max-slides: 8',
+      '---',
+      'Gardening with kids: planting tomatoes, watering tomatoes and picking tomatoes.',
+    ].join('\n');
+    const terms = svc.analyze(note).keyTopics.map((t) => t.term);
+    expect(terms).toContain('tomatoes');
+    for (const key of ['smart', 'slides', 'theme', 'technical', 'max', 'tags']) {
+      expect(terms.join(' ')).not.toMatch(new RegExp(`\\b${key}\\b`));
+    }
+  });
+
   test('3.1.9: tone detection', () => {
     expect(svc.analyze('therefore hence notwithstanding').tone).toBe('academic');
     expect(svc.analyze('lol guys this is awesome').tone).toBe('casual');
@@ -106,4 +123,75 @@ describe('AnalyzerService', () => {
     expect(veryFormal).toBeLessThanOrEqual(10);
     expect(veryCasual).toBeGreaterThanOrEqual(1);
   });
+
+  test('detects Polish and analyzes it with the Polish lexicon', () => {
+    const text =
+      'Wykład dla studentów: wprowadzenie do uczenia maszynowego. Przed egzaminem ' +
+      'przeczytaj rozdział o sieciach neuronowych, gradientach i regularyzacji sieci.';
+    const analysis = svc.analyze(text);
+    expect(analysis.language).toBe('pl');
+    expect(analysis.audience).toBe('students');
+    expect(analysis.domain).toBe('technology');
+    expect(analysis.complexity).toBe('beginner');
+    expect(analysis.keyTopics.map((t) => t.term)).toContain('studentów');
+    expect(analysis.keyTopics.find((t) => t.term === 'przed')).toBeUndefined();
+    expect(analysis.keyTopics.some((t) => /[ąęółśżźćń]/.test(t.term))).toBe(true);
+  });
+
+  test('Polish cues match inflected forms', () => {
+    const report = svc.analyze('Przychody i marża wzrosły, zarząd rekomenduje większy budżet.');
+    expect(report).toMatchObject({
+      language: 'pl',
+      audience: 'executives',
+      domain: 'business',
+      purpose: 'persuade',
+      tone: 'business',
+    });
+    expect(svc.analyze('Hej, to było super, spoko prezentacja').tone).toBe('casual');
+  });
+
+  test('a language hint overrides detection', () => {
+    expect(svc.analyze('The students have an exam').language).toBe('en');
+    expect(svc.analyze('Studenci mają egzamin', { language: 'auto' }).language).toBe('pl');
+    expect(svc.analyze('API', { language: 'pl-PL' }).language).toBe('pl');
+    expect(svc.analyze('Studenci mają egzamin', { language: 'en' }).audience).toBe('general');
+  });
+
+  test('reports confidence and the words behind each field', () => {
+    const analysis = svc.analyze('The API and the SDK: code for every developer.');
+    expect(analysis.audience).toBe('technical');
+    expect(analysis.confidence.audience.evidence).toEqual(['api', 'sdk', 'code', 'developer']);
+    expect(analysis.confidence.audience.score).toBeGreaterThan(0.75);
+    // nothing points at a tone, so `formal` is only the fallback
+    expect(analysis.confidence.tone).toEqual({ score: 0, evidence: [] });
+  });
+
+  test('rival cues lower the confidence of the first match', () => {
+    const clear = svc.analyze('Students take the exam after the lecture.');
+    const mixed = svc.analyze('Students pitch the ROI strategy to the board.');
+    expect(clear.audience).toBe('students');
+    expect(mixed.audience).toBe('students');
+    expect(mixed.confidence.audience.score).toBeLessThan(LOW_CONFIDENCE);
+    expect(clear.confidence.audience.score).toBeGreaterThan(mixed.confidence.audience.score);
+  });
+
+  test('evidence names the whole inflected word', () => {
+    const analysis = svc.analyze('Studentów czeka egzamin po wykładzie.');
+    expect(analysis.confidence.audience.evidence).toEqual(['studentów', 'egzamin', 'wykładzie']);
+    expect(svc.analyze('Studenci', { language: 'pl' }).confidence.language.score).toBe(1);
+  });
+
+  test('sections get their own complexity and inherit an undetected tone', () => {
+    const document = svc.analyze('Our roadmap lifts profit in every market.\n\nA simple overview.');
+    const basics = svc.analyzeSection('A simple overview of the basics.', document);
+    expect(document.tone).toBe('business');
+    expect(basics.complexity).toBe('beginner');
+    expect(basics.confidence.complexity.evidence).toEqual(['simple', 'overview', 'basics']);
+    expect(basics.tone).toBe('business');
+    expect(basics.confidence.tone).toEqual(document.confidence.tone);
+
+    const casual = svc.analyzeSection('Hey, this async module logs a metric, cool.', document);
+    expect(casual.tone).toBe('casual');
+    expect(casual.complexity).toBe('advanced');
+  });
 });
@@ -0,0 +1,88 @@
+import {
+  BatchProgress,
+  coerceConcurrency,
+  isGeneratedNote,
+  renderBatchSummary,
+  runWithConcurrency,
+} from '../BatchGeneration';
+
+describe('BatchGeneration', () => {
+  test('runWithConcurrency keeps at most `limit` workers in flight and results in order', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const results = await runWithConcurrency([30, 10, 20, 5, 15], 2, async (ms, i) => {
+      inFlight += 1;
+      peak = Math.max(peak, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      inFlight -= 1;
+      return i * 10;
+    });
+    expect(peak).toBe(2);
+    expect(results).toEqual([0, 10, 20, 30, 40]);
+  });
+
+  test('runWithConcurrency starts nothing new once the signal is aborted', async () => {
+    const controller = new AbortController();
+    const started: number[] = [];
+    const results = await runWithConcurrency(
+      [1, 2, 3, 4],
+      1,
+      async (n) => {
+        started.push(n);
+        if (n === 2) controller.abort();
+        return n;
+      },
+      controller.signal,
+    );
+    expect(started).toEqual([1, 2]);
+    expect(results).toEqual([1, 2, undefined, undefined]);
+  });
+
+  test('BatchProgress combines finished and in-flight notes', () => {
+    const progress = new BatchProgress(4);
+    progress.start('a.md');
+    progress.start('b.md');
+    progress.update('a.md', 0.5);
+    progress.finish('b.md');
+    expect(progress.snapshot()).toEqual({
+      percent: Math.round(((1 + 0.5) / 4) * 100),
+      completed: 1,
+      total: 4,
+      active: ['a.md'],
+    });
+  });
+
+  test('renderBatchSummary links every deck and lists failures', () => {
+    const summary = renderBatchSummary(
+      [
+        {
+          source: 'Projects/Alpha.md',
+          status: 'generated',
+          deckPath: 'Projects/Alpha - Slides.md',
+          slides: 7,
+        },
+        { source: 'Projects/Beta.md', status: 'failed', error: 'Path traversal is not allowed' },
+        { source: 'Gamma.md', status: 'skipped', warnings: ['Unknown option "foo"'] },
+      ],
+      { scope: 'folder Projects', startedAt: 0, finishedAt: 2500 },
+    );
+    expect(summary).toContain('# Slides: folder Projects');
+    expect(summary).toContain('1 of 3 notes converted in 2.5 s.');
+    expect(summary).toContain(
+      '| [[Projects/Alpha\\|Alpha]] | [[Projects/Alpha - Slides\\|Alpha - Slides]] | 7 | ✓ |',
+    );
+    expect(summary).toContain('| [[Projects/Beta\\|Beta]] | — | — | Failed: Path traversal');
+    expect(summary).toContain('| [[Gamma]] | — | — | Not started |');
+    expect(summary).toContain('- [[Gamma]]: Unknown option "foo"');
+  });
+
+  test('generated notes and concurrency bounds', () => {
+    expect(isGeneratedNote('Projects/Alpha - Slides.md')).toBe(true);
+    expect(isGeneratedNote('Projects/Alpha - Slides - Explain.md')).toBe(true);
+    expect(isGeneratedNote('Projects - Slides Index.md')).toBe(true);
+    expect(isGeneratedNote('Projects/Slides.md')).toBe(false);
+    expect(coerceConcurrency(0)).toBe(1);
+    expect(coerceConcurrency(20)).toBe(8);
+    expect(coerceConcurrency('x')).toBe(2);
+  });
+});
@@ -0,0 +1,34 @@
+import { CorpusIndex } from '../CorpusIndex';
+
+describe('CorpusIndex', () => {
+  test('counts each note once per phrase and updates incrementally', () => {
+    const index = new CorpusIndex();
+    index.add('a.md', 1, 'Neural networks. Neural networks learn.');
+    index.add('b.md', 1, 'Neural networks and decision trees.');
+    expect(index.documents).toBe(2);
+    expect(index.documentFrequency('neural networks')).toBe(2);
+    expect(index.documentFrequency('decision trees')).toBe(1);
+
+    const revision = index.revision;
+    expect(index.isCurrent('b.md', 1)).toBe(true);
+    expect(index.isCurrent('b.md', 2)).toBe(false);
+    index.add('b.md', 2, 'Gradient boosting.');
+    expect(index.documentFrequency('neural networks')).toBe(1);
+    expect(index.documentFrequency('decision trees')).toBe(0);
+    expect(index.revision).not.toBe(revision);
+
+    expect(index.retain(['b.md'])).toBe(1);
+    expect(index.documents).toBe(1);
+    expect(index.documentFrequency('neural networks')).toBe(0);
+  });
+
+  test('round-trips through a snapshot and ignores unreadable ones', () => {
+    const index = new CorpusIndex();
+    index.add('lectures/1.md', 42, 'Photosynthesis in plants. Photosynthesis needs light.');
+    const restored = CorpusIndex.fromJSON(JSON.parse(JSON.stringify(index)));
+    expect(restored.isCurrent('lectures/1.md', 42)).toBe(true);
+    expect(restored.documentFrequency('photosynthesis')).toBe(1);
+    expect(CorpusIndex.fromJSON({ version: 0, documents: {} }).documents).toBe(0);
+    expect(CorpusIndex.fromJSON('garbage').documents).toBe(0);
+  });
+});
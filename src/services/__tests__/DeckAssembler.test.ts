@@ -0,0 +1,60 @@
+import { SLIDE_SEPARATOR, assembleDeck, deckFrontmatter } from '../DeckAssembler';
+import { extractSegmentSlides, segmentMarker } from '../SlideComposer';
+import { themeForAudience } from '../StyleService';
+import { PresentationOrchestrator } from '../PresentationOrchestrator';
+
+describe('DeckAssembler', () => {
+  test('derives the frontmatter from the theme and options', () => {
+    expect(deckFrontmatter(themeForAudience('technical'))).toEqual({
+      theme: 'black',
+      transition: 'none',
+      width: 1280,
+      height: 720,
+      margin: 0.02,
+      controls: true,
+      progress: true,
+    });
+    const creative = deckFrontmatter(themeForAudience('creative'), {
+      size: '4:3',
+      controls: false,
+    });
+    expect(creative).toMatchObject({ theme: 'white', transition: 'convex', width: 960 });
+    expect(creative.controls).toBe(false);
+    const fade = deckFrontmatter(themeForAudience('creative'), { transition: 'zoom' });
+    expect(fade.transition).toBe('zoom');
+  });
+
+  test('moves slide annotations below the separator of their slide', () => {
+    const slides = [
+      `${segmentMarker('a1')}\n<!-- slide:class=x -->\n---\n# Title`,
+      `${segmentMarker(
+        'b2',
+      )}\n<!-- slide:class=y -->\n---\nFirst\n\n<!-- slide:class=y -->\n---\nSecond`,
+    ];
+    const deck = assembleDeck(slides, themeForAudience('business'));
+    expect(deck.startsWith('---\ntheme: white\n')).toBe(true);
+    const body = deck.slice(deck.indexOf('\n---\n\n') + 6);
+    expect(body.split(SLIDE_SEPARATOR)).toEqual([
+      `${segmentMarker('a1')}\n<!-- slide:class=x -->\n# Title`,
+      `${segmentMarker('b2')}\n<!-- slide:class=y -->\nFirst`,
+      '<!-- slide:class=y -->\nSecond\n',
+    ]);
+  });
+
+  test('slides taken from a written deck round-trip unchanged', async () => {
+    const md = '# Deck\n\nIntro.\n\n## Part\n\n- one\n- two';
+    const orch = new PresentationOrchestrator();
+    const first = await orch.generate({ rawMarkdown: md });
+    expect(first.ok).toBe(true);
+    if (!first.ok) return;
+    expect([...extractSegmentSlides(first.value.deck).values()][0]).not.toMatch(/---$/);
+    const second = await new PresentationOrchestrator().generate({
+      rawMarkdown: md,
+      previousDeck: first.value.deck,
+    });
+    expect(second.ok).toBe(true);
+    if (!second.ok) return;
+    expect(second.value.metrics.segments?.preserved).toBe(second.value.slides.length);
+    expect(second.value.deck).toBe(first.value.deck);
+  });
+});
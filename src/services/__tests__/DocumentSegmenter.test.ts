@@ -0,0 +1,119 @@
+import {
+  buildSectionTree,
+  parseBlocks,
+  segmentDocument,
+  stripFrontmatter,
+} from '../DocumentSegmenter';
+import { createDefaultLayoutEngine } from '../LayoutEngine';
+
+describe('DocumentSegmenter', () => {
+  const md = [
+    '---',
+    'tags: [lecture]',
+    '---',
+    '# Distributed Systems',
+    'Week 3 lecture notes',
+    '',
+    '## Consensus',
+    'Raft elects a leader.',
+    '',
+    '```ts',
+    'const a = 1;',
+    '',
+    'const b = 2;',
+    '```',
+    '',
+    '### Details',
+    '| node | role |',
+    '| --- | --- |',
+    '| a | leader |',
+    '',
+    '---',
+    '',
+    '- step one',
+    '  - nested detail',
+    '',
+    '- step two',
+    '',
+    '## Summary',
+    'Done.',
+  ].join('\n');
+
+  test('parseBlocks keeps code, table and list blocks atomic', () => {
+    const blocks = parseBlocks(md);
+    const code = blocks.find((b) => b.kind === 'code');
+    expect(code?.text).toContain('const a = 1;\n\nconst b = 2;');
+    const table = blocks.find((b) => b.kind === 'table');
+    expect(table?.text.split('\n').length).toBe(3);
+    const list = blocks.find((b) => b.kind === 'list');
+    expect(list?.text).toContain('  - nested detail');
+    expect(list?.text).toContain('- step two');
+    expect(blocks.some((b) => b.text.includes('tags:'))).toBe(false);
+  });
+
+  test('buildSectionTree nests headings by level', () => {
+    const root = buildSectionTree(parseBlocks(md));
+    expect(root.children.map((c) => c.title)).toEqual(['Distributed Systems']);
+    const h1 = root.children[0];
+    expect(h1.children.map((c) => c.title)).toEqual(['Consensus', 'Summary']);
+    expect(h1.children[0].children[0].title).toBe('Details');
+  });
+
+  test('segmentDocument splits on H1/H2 and explicit breaks only', () => {
+    const segments = segmentDocument(md);
+    expect(segments.map((s) => s.heading?.title)).toEqual([
+      'Distributed Systems',
+      'Consensus',
+      undefined,
+      'Summary',
+    ]);
+    expect(segments[1].text).toContain('### Details');
+    expect(segments[1].text).toContain('```ts');
+    expect(segments[2].path).toEqual(['Distributed Systems', 'Consensus', 'Details']);
+    expect(segments[2].blocks[0].kind).toBe('list');
+    expect(segments.map((s) => s.index)).toEqual([0, 1, 2, 3]);
+  });
+
+  test('falls back to one segment per block without boundaries', () => {
+    const segments = segmentDocument('First.\n\n### Small\nSecond.\n\nThird.');
+    expect(segments.map((s) => s.text)).toEqual(['First.', '### Small\n\nSecond.', 'Third.']);
+  });
+
+  test('stripFrontmatter leaves documents without frontmatter untouched', () => {
+    expect(stripFrontmatter('# Title\n---\ntext')).toBe('# Title\n---\ntext');
+  });
+
+  test('layout engine uses segment structure for title slides', () => {
+    const engine = createDefaultLayoutEngine();
+    const [title, consensus] = segmentDocument(md);
+    expect(engine.decide(title.text, title).type).toBe('title');
+    expect(engine.decide(consensus.text, consensus).type).not.toBe('title');
+  });
+
+  test('directives are attached to their segment and removed from its content', () => {
+    const segments = segmentDocument(
+      [
+        '## Quotes',
+        '<!-- slides: layout=list -->',
+        'He said "ship it" and "test it".',
+        '',
+        '## Notes',
+        '%% slides: skip %%',
+        '',
+        '```',
+        '<!-- slides: layout=quote -->',
+        '```',
+      ].join('\n'),
+    );
+    expect(segments[0].directive).toEqual({ layout: 'list' });
+    expect(segments[0].text).toBe('## Quotes\n\nHe said "ship it" and "test it".');
+    expect(segments[1].directive).toEqual({ skip: true });
+    expect(segments[1].blocks.map((b) => b.kind)).toEqual(['heading', 'code']);
+  });
+
+  test('directives attach to the following block without boundaries', () => {
+    const segments = segmentDocument('First.\n\n%% slides: layout=quote %%\nSecond.');
+    expect(segments.map((s) => s.directive)).toEqual([undefined, { layout: 'quote' }]);
+    expect(segments[1].text).toBe('Second.');
+  });
+});
@@ -0,0 +1,42 @@
+import { renderExplainReport } from '../ExplainReport';
+import { PresentationOrchestrator } from '../PresentationOrchestrator';
+
+describe('ExplainReport', () => {
+  test('covers analysis, theme, per-slide layouts and timings', async () => {
+    const md = [
+      '## Pros and cons',
+      'Pros: fast | cheap',
+      'Cons: fragile',
+      '',
+      '## Steps',
+      '- plan',
+      '- build',
+      '- ship',
+    ].join('\n');
+    const result = await new PresentationOrchestrator().generate({
+      rawMarkdown: md,
+      structure: { closing: true },
+      overrides: ['theme'],
+    });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    const report = renderExplainReport(result.value, {
+      deckPath: 'Talks/Plan - Slides.md',
+      sourcePath: 'Talks/Plan.md',
+    });
+    expect(report).toContain('- Deck: [[Talks/Plan - Slides.md]]');
+    expect(report).toContain("- Set by the note's frontmatter: theme");
+    expect(report).toMatch(/\| Audience \| \w+ \| \d+%/);
+    expect(report).toContain('| Tone | formal | 0% (low) | — |');
+    expect(report).toContain(`**${result.value.theme.name}**: ${result.value.theme.rationale}`);
+    const [first] = result.value.layoutDecisions;
+    const [section] = result.value.sections;
+    expect(report).toContain(
+      `| 1 | Pros and cons | ${section.complexity}, ${section.tone} | ${first.type}`,
+    );
+    expect(report).toContain('| 2 | Steps |');
+    expect(report).toContain('Plus 1 structural slide(s)');
+    expect(report).toMatch(/\| compose \| \d+\.\d \|/);
+    expect(report).not.toContain('## Merged to fit max slides');
+  });
+});
@@ -0,0 +1,66 @@
+import {
+  compareFingerprints,
+  createFingerprint,
+  defaultSeed,
+  readFingerprint,
+} from '../GenerationFingerprint';
+import { assembleDeck } from '../DeckAssembler';
+import { themeForAudience } from '../StyleService';
+import { ENGINE_VERSION } from '../TemplateService';
+
+describe('GenerationFingerprint', () => {
+  const base = {
+    settings: { maxSlides: 20, layoutStrategy: 'auto', language: undefined },
+    templates: { title: '1.0.0', bullets: '1.0.0' },
+    seed: 42,
+  };
+
+  test('hashes settings and templates independently of key order', () => {
+    const a = createFingerprint(base);
+    const b = createFingerprint({
+      ...base,
+      settings: { layoutStrategy: 'auto', maxSlides: 20 },
+      templates: { bullets: '1.0.0', title: '1.0.0' },
+    });
+    expect(a).toEqual(b);
+    expect(a.engine).toBe(ENGINE_VERSION);
+    expect(createFingerprint({ ...base, settings: { maxSlides: 21 } }).settings).not.toBe(
+      a.settings,
+    );
+  });
+
+  test('derives the same seed from the same source', () => {
+    expect(defaultSeed('# Note')).toBe(defaultSeed('# Note'));
+    expect(defaultSeed('# Note')).not.toBe(defaultSeed('# Other note'));
+    expect(defaultSeed('# Note')).toBeLessThan(2 ** 31);
+  });
+
+  test('round-trips through the deck frontmatter', () => {
+    const fingerprint = createFingerprint({
+      ...base,
+      adapters: ['textgen@3.0.0', 'textgen@3.0.0'],
+    });
+    const deck = assembleDeck(['# Slide'], themeForAudience('business'), { fingerprint });
+    expect(deck).toContain('\nfingerprint:\n  engine: "1.0.0"\n');
+    expect(readFingerprint(deck)).toEqual({ ...fingerprint, adapters: ['textgen@3.0.0'] });
+    expect(
+      readFingerprint(assembleDeck(['# Slide'], themeForAudience('business'))),
+    ).toBeUndefined();
+  });
+
+  test('describes what differs between two runs', () => {
+    const previous = createFingerprint(base);
+    expect(compareFingerprints(previous, previous)).toEqual([]);
+    const current = createFingerprint({
+      ...base,
+      settings: { maxSlides: 10 },
+      adapters: ['textgen@3.0.0'],
+      seed: 7,
+    });
+    expect(compareFingerprints(previous, current)).toEqual([
+      'generation settings changed',
+      'adapters none → textgen@3.0.0',
+      'seed 42 → 7',
+    ]);
+  });
+});
@@ -0,0 +1,99 @@
+import {
+  coerceChoice,
+  coerceLanguage,
+  coerceMaxSlides,
+  coerceSeed,
+  parseNoteOverrides,
+  resolveGenerationParameters,
+  THEME_CHOICES,
+} from '../GenerationSettings';
+
+describe('GenerationSettings', () => {
+  test('coercion clamps numbers and falls back on invalid values', () => {
+    expect(coerceMaxSlides(500, 40)).toBe(200);
+    expect(coerceMaxSlides(2.6, 40)).toBe(5);
+    expect(coerceMaxSlides('x', 40)).toBe(40);
+    expect(coerceChoice('technical', THEME_CHOICES, 'business')).toBe('technical');
+    expect(coerceChoice('neon', THEME_CHOICES, 'business')).toBe('business');
+    expect(coerceLanguage('pl-PL', 'auto')).toBe('pl-PL');
+    expect(coerceLanguage('Polish!', 'auto')).toBe('auto');
+  });
+
+  test('parseNoteOverrides reads the smart-slides block with key aliases', () => {
+    const { overrides, warnings } = parseNoteOverrides({
+      tags: ['talk'],
+      'smart-slides': {
+        theme: 'Academic',
+        'max-slides': 12,
+        layout: 'minimal',
+        transition: 'fade',
+        lang: 'pl',
+        output: 'Decks/',
+      },
+    });
+    expect(overrides).toEqual({
+      theme: 'academic',
+      maxSlides: 12,
+      layoutStrategy: 'minimal',
+      transition: 'fade',
+      language: 'pl',
+      outputPath: 'Decks/',
+    });
+    expect(warnings).toEqual([]);
+  });
+
+  test('invalid values are dropped or adjusted with warnings', () => {
+    const { overrides, warnings } = parseNoteOverrides({
+      'smart-slides': { theme: 'neon', maxSlides: 1000, colour: 'red', output: '' },
+    });
+    expect(overrides).toEqual({ maxSlides: 200 });
+    expect(warnings).toHaveLength(4);
+    expect(parseNoteOverrides({ 'smart-slides': 'fast' }).warnings).toHaveLength(1);
+    expect(parseNoteOverrides(undefined)).toEqual({ overrides: {}, warnings: [] });
+  });
+
+  test('flag options accept YAML booleans and yes/no', () => {
+    const { overrides, warnings } = parseNoteOverrides({
+      'smart-slides': {
+        'title-slide': true,
+        agenda: 'yes',
+        closing: 'off',
+        'closing-slide': 3,
+        explain: true,
+      },
+    });
+    expect(overrides).toEqual({
+      titleSlide: true,
+      agendaSlide: true,
+      closingSlide: false,
+      explain: true,
+    });
+    expect(warnings).toEqual(['Ignoring invalid closingSlide: 3']);
+  });
+
+  test('seed accepts whole numbers, also written as strings', () => {
+    expect(parseNoteOverrides({ 'smart-slides': { seed: '1234' } }).overrides).toEqual({
+      seed: 1234,
+    });
+    const { overrides, warnings } = parseNoteOverrides({ 'smart-slides': { seed: -1 } });
+    expect(overrides).toEqual({});
+    expect(warnings).toEqual(['Ignoring invalid seed: -1']);
+    expect(coerceSeed(2.5)).toBeUndefined();
+  });
+
+  test('resolveGenerationParameters lets overrides win', () => {
+    const global = {
+      theme: 'business' as const,
+      maxSlides: 40,
+      layoutStrategy: 'auto' as const,
+      transition: 'none' as const,
+      language: 'auto',
+      titleSlide: false,
+      agendaSlide: false,
+      closingSlide: true,
+      explain: false,
+    };
+    const resolved = resolveGenerationParameters(global, { maxSlides: 10, transition: 'zoom' });
+    expect(resolved).toEqual({ ...global, maxSlides: 10, transition: 'zoom' });
+  });
+});
@@ -0,0 +1,103 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  OrchestratorInput,
+  OrchestratorOutput,
+  PresentationOrchestrator,
+} from '../PresentationOrchestrator';
+import { segmentLabel } from '../SlideBudget';
+import { parseHeading, scanHeadings } from '../MarkdownSections';
+
+/**
+ * Golden-file regression corpus: real-world notes from `golden/notes` go through the whole
+ * orchestrator and are compared with the deck and analysis stored in `golden/expected`. After an
+ * intended change to the heuristics, refresh the expectations with `npm run test:golden:update`
+ * and review the diff of `golden/expected` like any other change.
+ */
+
+interface CorpusEntry {
+  note: string;
+  input: Omit<OrchestratorInput, 'rawMarkdown'>;
+}
+
+const GOLDEN_DIR = path.join(__dirname, 'golden');
+const UPDATE = process.env.UPDATE_GOLDEN === '1';
+const CORPUS: CorpusEntry[] = JSON.parse(
+  fs.readFileSync(path.join(GOLDEN_DIR, 'corpus.json'), 'utf8'),
+);
+
+// Everything a heuristics change can move, without timings
+function analysisSnapshot(output: OrchestratorOutput) {
+  const { theme, metrics } = output;
+  return {
+    parameters: output.parameters,
+    analysis: output.analysis,
+    theme: { name: theme.name, rationale: theme.rationale, modifiers: theme.modifiers },
+    slides: output.layoutDecisions.map((decision, i) => ({
+      section: output.segments[i] ? segmentLabel(output.segments[i]) : '',
+      content: output.sections[i]
+        ? { complexity: output.sections[i].complexity, tone: output.sections[i].tone }
+        : null,
+      layout: decision.type,
+      params: decision.params,
+      rationale: decision.rationale,
+      score: decision.score,
+    })),
+    folding: metrics.folding ?? null,
+    totalSlides: output.slides.length,
+  };
+}
+
+function expectGolden(file: string, actual: string): void {
+  const expectedPath = path.join(GOLDEN_DIR, 'expected', file);
+  if (UPDATE) {
+    fs.writeFileSync(expectedPath, actual, 'utf8');
+    return;
+  }
+  if (!fs.existsSync(expectedPath)) {
+    throw new Error(`Missing golden file ${file}; run npm run test:golden:update`);
+  }
+  expect(actual).toBe(fs.readFileSync(expectedPath, 'utf8'));
+}
+
+// Folding and overflow must never reorder a note: its headings appear in the deck in order
+function expectSourceOrder(markdown: string, deck: string): void {
+  const deckLines = deck.split('\n');
+  const positions = scanHeadings(markdown.split('\n'))
+    .map((h) => deckLines.findIndex((line) => parseHeading(line)?.title === h.title))
+    .filter((line) => line >= 0);
+  expect(positions.length).toBeGreaterThan(0);
+  expect(positions).toEqual([...positions].sort((a, b) => a - b));
+}
+
+// Every line of the note reaches the deck: layouts rearrange content but never drop or mangle it
+function expectNoContentLoss(markdown: string, deck: string): void {
+  const deckLines = new Set(deck.split('\n').map((line) => line.trim()));
+  const lost = markdown
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !deckLines.has(line));
+  expect(lost).toEqual([]);
+}
+
+describe('golden corpus', () => {
+  test.each(CORPUS.map((entry) => [entry.note, entry] as const))('%s', async (note, entry) => {
+    const markdown = fs.readFileSync(path.join(GOLDEN_DIR, 'notes', note), 'utf8');
+    const orchestrator = new PresentationOrchestrator({ now: () => 0 });
+    const result = await orchestrator.generate({
+      title: note.replace(/\.md$/, ''),
+      ...entry.input,
+      rawMarkdown: markdown,
+    });
+    if (!result.ok) throw result.error;
+
+    const name = note.replace(/\.md$/, '');
+    expectSourceOrder(markdown, result.value.deck);
+    expectNoContentLoss(markdown, result.value.deck);
+    expectGolden(`${name}.deck.md`, result.value.deck);
+    expectGolden(
+      `${name}.analysis.json`,
+      `${JSON.stringify(analysisSnapshot(result.value), null, 2)}\n`,
+    );
+  });
+});
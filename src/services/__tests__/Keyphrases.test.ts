@@ -0,0 +1,49 @@
+import { ENGLISH } from '../AnalyzerLexicons';
+import { CorpusIndex } from '../CorpusIndex';
+import { candidatePhrases, extractKeyphrases, topicsIn } from '../Keyphrases';
+
+describe('Keyphrases', () => {
+  const note = [
+    '# Machine learning at work',
+    'Machine learning models need training data. Good training data beats bigger models.',
+    'We deploy machine learning models behind a feature store; the feature store keeps data fresh.',
+  ].join('\n');
+
+  test('candidates are runs of content words, broken by stopwords and punctuation', () => {
+    const counts = candidatePhrases(
+      'Rate-limiting of the API gateway. API gateway limits',
+      ENGLISH,
+    );
+    expect(counts.get('rate limiting')).toBe(1);
+    expect(counts.get('api gateway')).toBe(2);
+    expect(counts.get('gateway api')).toBeUndefined();
+    expect(counts.has('limiting api')).toBe(false);
+    expect(candidatePhrases('api api api', ENGLISH).has('api api')).toBe(false);
+  });
+
+  test('multi-word phrases win over the words they are made of', () => {
+    const terms = extractKeyphrases(note, ENGLISH).map((t) => t.term);
+    expect(terms.slice(0, 3)).toEqual(['machine learning', 'training data', 'feature store']);
+    expect(terms).not.toContain('machine');
+    expect(terms).not.toContain('learning');
+    expect(terms).not.toContain('learning models');
+  });
+
+  test('phrases common across the corpus rank lower', () => {
+    const corpus = new CorpusIndex();
+    for (let i = 0; i < 5; i++) {
+      corpus.add(`note-${i}.md`, 1, 'Machine learning models everywhere. Machine learning models.');
+    }
+    corpus.add('other.md', 1, 'A feature store holds features.');
+    const [top] = extractKeyphrases(note, ENGLISH, corpus);
+    expect(top.term).toBe('training data');
+    expect(top.score).toBeGreaterThan(4);
+  });
+
+  test('topicsIn matches whole phrases', () => {
+    const topics = extractKeyphrases(note, ENGLISH);
+    const found = topicsIn('Our feature-store design', topics).map((t) => t.term);
+    expect(found).toEqual(['feature store']);
+    expect(topicsIn('features restore', topics)).toEqual([]);
+  });
+});
@@ -1,4 +1,5 @@
-import { LayoutEngine, createDefaultLayoutEngine } from '../../services/LayoutEngine';
+import { LayoutEngine, createDefaultLayoutEngine, densityFor } from '../../services/LayoutEngine';
+import type { SectionAnalysis } from '../../services/AnalyzerService';
 
 describe('LayoutEngine default rules (3.2.2–3.2.7)', () => {
   const engine: LayoutEngine = createDefaultLayoutEngine();
@@ -7,14 +8,20 @@ describe('LayoutEngine default rules (3.2.2–3.2.7)', () => {
     expect(engine.decide('# My Talk').type).toBe('title');
   });
 
-  test('comparison detected (vs, pros/cons)', () => {
-    expect(engine.decide('A vs B: which one?').type).toBe('comparison');
+  test('comparison detected (pros/cons, two-column table)', () => {
     expect(engine.decide('Pros: speed\nCons: cost').type).toBe('comparison');
+    expect(engine.decide('| Rust | Go |\n| --- | --- |\n| safe | simple |').type).toBe(
+      'comparison',
+    );
+    expect(engine.decide('## Rust vs Go\n\nA vs B: which one?').type).not.toBe('comparison');
   });
 
   test('quote detected', () => {
     expect(engine.decide('> The only limit is your mind').type).toBe('quote');
     expect(engine.decide('“Inspire and be inspired.”').type).toBe('quote');
+    expect(engine.decide('He said "ship it" today.').type).not.toBe('quote');
+    expect(engine.decide('Intro.\n\n> A quote among other blocks').type).not.toBe('quote');
+    expect(engine.decide('```ts\nconst s = "quoted";\n```').type).not.toBe('quote');
   });
 
   test('list detected with columns heuristic', () => {
@@ -36,3 +43,42 @@ describe('LayoutEngine default rules (3.2.2–3.2.7)', () => {
     expect(d2.type).toBe('image');
   });
 });
+
+describe('LayoutEngine section density', () => {
+  const engine = createDefaultLayoutEngine();
+  const cue = { score: 0.5, evidence: ['cue'] };
+  const section = (over: Partial<SectionAnalysis>): SectionAnalysis => ({
+    complexity: 'intermediate',
+    tone: 'formal',
+    keyTopics: [],
+    confidence: { complexity: cue, tone: cue },
+    ...over,
+  });
+
+  test('advanced sections are dense, beginner and business ones sparse', () => {
+    expect(densityFor(section({ complexity: 'advanced' }))).toBe('dense');
+    expect(densityFor(section({ complexity: 'beginner' }))).toBe('sparse');
+    expect(densityFor(section({ tone: 'business' }))).toBe('sparse');
+    expect(densityFor(section({}))).toBeUndefined();
+  });
+
+  test('readings without cues leave the density alone', () => {
+    const byLength = { score: 0.4, evidence: [] };
+    const guess = section({
+      complexity: 'beginner',
+      confidence: { complexity: byLength, tone: cue },
+    });
+    expect(densityFor(guess)).toBeUndefined();
+  });
+
+  test('only text slides take the density; dense lists split into columns sooner', () => {
+    const items = Array.from({ length: 6 }, (_, i) => `- item ${i}`).join('\n');
+    const dense = section({ complexity: 'advanced' });
+    expect(engine.decide(items).params).toMatchObject({ columns: 1 });
+    expect(engine.decide(items, undefined, dense).params).toMatchObject({
+      columns: 2,
+      density: 'dense',
+    });
+    expect(engine.decide('# My Talk', undefined, dense).params.density).toBeUndefined();
+  });
+});
@@ -0,0 +1,90 @@
+import { LexiconPack, lexiconThemeRules, parseLexiconPacks } from '../LexiconPacks';
+import { AnalyzerService } from '../AnalyzerService';
+import { StyleService } from '../StyleService';
+import { PresentationOrchestrator } from '../PresentationOrchestrator';
+
+describe('LexiconPacks', () => {
+  const legal: LexiconPack = {
+    id: 'legal',
+    domain: 'legal',
+    keywords: ['contract', 'clause', 'liabilit', 'umow'],
+    minMatches: 2,
+    audience: { executives: ['general counsel'] },
+    theme: 'academic',
+  };
+  const analyzer = new AnalyzerService();
+  const contract =
+    'The contract limits liability. Each clause was reviewed; contracts renew yearly.';
+
+  test('parses packs, dropping invalid ones with warnings', () => {
+    const { packs, warnings } = parseLexiconPacks({
+      packs: [
+        { id: 'finance', keywords: ['Ledger', 'ledger', ' audit '], theme: 'neon' },
+        { id: 'game-dev', domain: 'Game Dev', keywords: ['sprite'], minMatches: 1 },
+        { id: 'finance', keywords: ['x'] },
+        { id: 'bad id!', keywords: ['x'] },
+        { id: 'empty', keywords: [] },
+        { id: 'crowd', keywords: ['fans'], audience: { fans: ['x'], students: ['pupil'] } },
+      ],
+    });
+    expect(packs.map((p) => p.id)).toEqual(['finance', 'game-dev', 'crowd']);
+    expect(packs[0]).toEqual({
+      id: 'finance',
+      domain: 'finance',
+      keywords: ['ledger', 'audit'],
+      minMatches: 2,
+      audience: {},
+    });
+    expect(packs[1]).toMatchObject({ domain: 'game dev', minMatches: 1 });
+    expect(packs[2].audience).toEqual({ students: ['pupil'] });
+    expect(warnings).toEqual([
+      'Lexicon pack "finance": ignoring invalid theme "neon"',
+      'Ignoring duplicate lexicon pack "finance"',
+      'Ignoring pack 4: "id" must be a word such as "legal"',
+      'Ignoring lexicon pack "empty": no keywords',
+      'Lexicon pack "crowd": unknown audience "fans"',
+    ]);
+    expect(parseLexiconPacks([{ id: 'a', keywords: ['b'] }]).packs).toHaveLength(1);
+    expect(parseLexiconPacks({ id: 'a' }).warnings).toHaveLength(1);
+  });
+
+  test('a pack claims the domain once enough keywords occur', () => {
+    expect(analyzer.analyze(contract).domain).toBe('general');
+    expect(analyzer.analyze(contract, { packs: [legal] }).domain).toBe('legal');
+    expect(analyzer.analyze('One contract only.', { packs: [legal] }).domain).toBe('general');
+    expect(analyzer.analyze(contract, { packs: [{ ...legal, language: 'pl' }] }).domain).toBe(
+      'general',
+    );
+  });
+
+  test('pack audience cues are tried before the built-in ones', () => {
+    const text = 'Notes for the general counsel about the students contract clause.';
+    expect(analyzer.analyze(text).audience).toBe('students');
+    expect(analyzer.analyze(text, { packs: [legal] }).audience).toBe('executives');
+  });
+
+  test('keywords are literal text, not patterns', () => {
+    const pack = { ...legal, keywords: ['c++', 'a.b'], minMatches: 1 };
+    expect(analyzer.analyze('Written in c++ today', { packs: [pack] }).domain).toBe('legal');
+    expect(analyzer.analyze('Written in axb today', { packs: [pack] }).domain).toBe('general');
+  });
+
+  test('packs with a theme add a theme rule for their domain', () => {
+    const style = new StyleService().extend(lexiconThemeRules([legal]));
+    const theme = style.decide({ domain: 'legal', audience: 'executives', tone: 'formal' });
+    expect(theme.name).toBe('Academic Classic');
+    expect(theme.rationale).toContain('lexicon pack legal');
+    expect(lexiconThemeRules([{ ...legal, theme: undefined }])).toEqual([]);
+  });
+
+  test('the orchestrator applies packs to the analysis and theme', async () => {
+    const orch = new PresentationOrchestrator();
+    const result = await orch.generate({ rawMarkdown: contract, lexicons: [legal] });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.analysis.domain).toBe('legal');
+    expect(result.value.theme.name).toBe('Academic Classic');
+    const plain = await orch.generate({ rawMarkdown: contract });
+    expect(plain.ok && plain.value.analysis.domain).toBe('general');
+  });
+});
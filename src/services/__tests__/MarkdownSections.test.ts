@@ -0,0 +1,61 @@
+import { findSectionAt, findTextEnd, relocateSection, scanHeadings } from '../MarkdownSections';
+
+describe('MarkdownSections', () => {
+  const md = [
+    '# Meeting',
+    'Intro line',
+    '',
+    '## Budget',
+    'Numbers here',
+    '### Details',
+    'More numbers',
+    '',
+    '## Hiring',
+    '```',
+    '# not a heading',
+    '```',
+    'Two roles open',
+  ].join('\n');
+
+  test('scanHeadings ignores headings inside code fences', () => {
+    const headings = scanHeadings(md.split('\n'));
+    expect(headings.map((h) => h.title)).toEqual(['Meeting', 'Budget', 'Details', 'Hiring']);
+    expect(headings[2].level).toBe(3);
+  });
+
+  test('findSectionAt returns the section including nested headings', () => {
+    const section = findSectionAt(md, 4);
+    expect(section?.title).toBe('Budget');
+    expect(section?.startLine).toBe(3);
+    expect(section?.endLine).toBe(6);
+    expect(section?.text).toContain('### Details');
+    expect(section?.text).not.toContain('Hiring');
+  });
+
+  test('findSectionAt runs to the end of the document and skips fenced headings', () => {
+    const section = findSectionAt(md, 12);
+    expect(section?.title).toBe('Hiring');
+    expect(section?.text).toContain('Two roles open');
+  });
+
+  test('findSectionAt returns null before the first heading', () => {
+    expect(findSectionAt('plain text\n# Later', 0)).toBeNull();
+  });
+
+  test('relocateSection follows a section moved by edits above it', () => {
+    const budget = findSectionAt(md, 4)!;
+    const edited = ['# Meeting', 'New intro', 'and more', '', md.split('\n').slice(3).join('\n')];
+    const moved = relocateSection(edited.join('\n'), budget);
+    expect(moved?.startLine).toBe(4);
+    expect(moved?.endLine).toBe(7);
+    expect(relocateSection(md.replace('## Budget', '## Costs'), budget)).toBeNull();
+  });
+
+  test('findTextEnd finds the occurrence closest to where the text was', () => {
+    const text = 'a\nnote\nb\nnote\nmore\nc';
+    expect(findTextEnd(text, 'note\nmore\n', 1)).toBe(4);
+    expect(findTextEnd(text, 'note', 0)).toBe(1);
+    expect(findTextEnd(text, 'note', 4)).toBe(3);
+    expect(findTextEnd(text, 'gone', 0)).toBeNull();
+  });
+});
@@ -1,4 +1,12 @@
-import { PresentationOrchestrator } from '../PresentationOrchestrator';
+import {
+  DeckDrafter,
+  GenerationCancelledError,
+  PresentationEventMap,
+  PresentationOrchestrator,
+  summarizePresentationEvent,
+} from '../PresentationOrchestrator';
+import { DomainEvents, EventBus } from '../../core/events/EventBus';
+import { AdapterError } from '../../core/integration/BaseAdapter';
 import { AnalyzerService } from '../AnalyzerService';
 import { LayoutEngine, createDefaultLayoutEngine } from '../LayoutEngine';
 import { StyleService } from '../StyleService';
@@ -29,12 +37,38 @@ describe('PresentationOrchestrator - 5.1', () => {
     expect(Object.keys(result.value.metrics.steps).length).toBeGreaterThanOrEqual(3);
   });
 
+  test('analyzes each section alongside the document', async () => {
+    const md =
+      '## Overview\nA simple overview of the basics.\n\n## Internals\nModular async modules.';
+    const result = await new PresentationOrchestrator().generate({ rawMarkdown: md });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.sections.map((s) => s.complexity)).toEqual(['beginner', 'advanced']);
+    expect(result.value.layoutDecisions.map((d) => d.params.density)).toEqual(['sparse', 'dense']);
+    expect(result.value.slides[0]).toContain(' density-sparse -->');
+  });
+
+  test('per-run progress listeners only hear their own run', async () => {
+    const shared: number[] = [];
+    const orch = new PresentationOrchestrator({ onProgress: (p) => shared.push(p.percent) });
+    const first: string[] = [];
+    const second: string[] = [];
+    await Promise.all([
+      orch.generate({ rawMarkdown: text, onProgress: (p) => first.push(p.phase) }),
+      orch.generate({ rawMarkdown: '# Other\n\nBody.', onProgress: (p) => second.push(p.phase) }),
+    ]);
+    expect(first[first.length - 1]).toBe('done');
+    expect(second[second.length - 1]).toBe('done');
+    expect(shared).toHaveLength(first.length + second.length);
+  });
+
   test('abort signal stops early', async () => {
     const controller = new AbortController();
     controller.abort();
     const orch = new PresentationOrchestrator();
     const result = await orch.generate({ rawMarkdown: text, abortSignal: controller.signal });
     expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error).toBeInstanceOf(GenerationCancelledError);
   });
 
   test('uses injected services when provided', async () => {
@@ -70,4 +104,592 @@ describe('PresentationOrchestrator - 5.1', () => {
     expect(res.ok).toBe(true);
     expect(logs.find((l) => String(l.m).includes('analyze failed'))).toBeTruthy();
   });
+
+  test('respects maxSlides and preferred theme from input', async () => {
+    const orch = new PresentationOrchestrator();
+    const res = await orch.generate({
+      rawMarkdown: 'First.\n\nSecond.\n\nThird.\n\nFourth.',
+      maxSlides: 2,
+      preferredTheme: 'creative',
+    });
+    expect(res.ok).toBe(true);
+    if (!res.ok) return;
+    expect(res.value.slides.length).toBe(2);
+    expect(res.value.layoutDecisions.length).toBe(2);
+    expect(res.value.theme.name).toBe('Creative Vibrant');
+    // Nothing is cut off: the extra paragraphs are folded into the kept slides
+    expect(res.value.slides.join('\n')).toContain('Fourth.');
+    expect(res.value.metrics.folding?.merges.length).toBeGreaterThan(0);
+  });
+
+  test('regeneration recomposes only changed segments and keeps edited slides', async () => {
+    const orch = new PresentationOrchestrator();
+    const v1 = '## Intro\n\nHello world.\n\n## Budget\n\nNumbers.\n\n## Hiring\n\nTwo roles.';
+    const first = await orch.generate({ rawMarkdown: v1 });
+    expect(first.ok).toBe(true);
+    if (!first.ok) return;
+    expect(first.value.metrics.segments).toEqual({
+      total: 3,
+      preserved: 0,
+      cached: 0,
+      composed: 3,
+    });
+
+    // user edits the first slide of the written deck by hand
+    const deck = first.value.slides.join('\n\n').replace('Hello world.', 'Hello edited world.');
+    const v2 = v1.replace('Numbers.', 'Updated numbers.');
+    const second = await orch.generate({ rawMarkdown: v2, previousDeck: deck });
+    expect(second.ok).toBe(true);
+    if (!second.ok) return;
+    expect(second.value.metrics.segments).toEqual({
+      total: 3,
+      preserved: 2,
+      cached: 0,
+      composed: 1,
+    });
+    expect(second.value.slides[0]).toContain('Hello edited world.');
+    expect(second.value.slides[1]).toContain('Updated numbers.');
+
+    const third = await orch.generate({ rawMarkdown: v2 });
+    expect(third.ok && third.value.metrics.segments?.cached).toBe(3);
+  });
+
+  test('a new theme or transition recomposes slides kept from the previous deck', async () => {
+    const orch = new PresentationOrchestrator();
+    const md = '## Intro\n\nHello world.\n\n## Budget\n\nNumbers.';
+    const first = await orch.generate({ rawMarkdown: md, theme: 'business' });
+    expect(first.ok).toBe(true);
+    if (!first.ok) return;
+    const deck = first.value.slides.join('\n\n');
+
+    const same = await orch.generate({ rawMarkdown: md, theme: 'business', previousDeck: deck });
+    expect(same.ok && same.value.metrics.segments?.preserved).toBe(2);
+
+    const restyled = await orch.generate({
+      rawMarkdown: md,
+      theme: 'technical',
+      transition: 'zoom',
+      previousDeck: deck,
+    });
+    expect(restyled.ok).toBe(true);
+    if (!restyled.ok) return;
+    expect(restyled.value.metrics.segments?.preserved).toBe(0);
+    expect(restyled.value.slides.join('\n')).not.toContain('theme-business');
+    expect(restyled.value.slides[0]).toContain('data-transition=zoom');
+  });
+
+  test('stream yields analysis, layout, theme, each slide and done in order', async () => {
+    const orch = new PresentationOrchestrator();
+    const types: string[] = [];
+    let slideCount = 0;
+    for await (const event of orch.stream({ rawMarkdown: text })) {
+      types.push(event.type);
+      if (event.type === 'slide') {
+        slideCount += 1;
+        expect(event.slide.length).toBeGreaterThan(0);
+        expect(event.index).toBe(slideCount - 1);
+      }
+      if (event.type === 'done') expect(event.output.slides.length).toBe(slideCount);
+    }
+    expect(types.slice(0, 3)).toEqual(['analysis', 'layout', 'theme']);
+    expect(types[types.length - 1]).toBe('done');
+    expect(slideCount).toBeGreaterThan(0);
+  });
+
+  test('stream reports abort mid-composition as an error event', async () => {
+    const controller = new AbortController();
+    const orch = new PresentationOrchestrator();
+    const types: string[] = [];
+    let failure: Error | undefined;
+    for await (const event of orch.stream({
+      rawMarkdown: 'One.\n\nTwo.\n\nThree.',
+      abortSignal: controller.signal,
+    })) {
+      types.push(event.type);
+      if (event.type === 'slide') controller.abort();
+      if (event.type === 'error') failure = event.error;
+    }
+    expect(types.filter((t) => t === 'slide').length).toBe(1);
+    expect(types[types.length - 1]).toBe('error');
+    expect(failure).toBeInstanceOf(GenerationCancelledError);
+    expect((failure as GenerationCancelledError).partialSlides.length).toBe(1);
+  });
+});
+
+describe('PresentationOrchestrator - pipeline stages and hooks', () => {
+  const text =
+    '# Glossary demo\n\nRaft is a consensus protocol.\n\n## Terms\n\n- Leader\n- Follower';
+
+  test('custom stages run after their built-in stage and are timed', async () => {
+    const order: string[] = [];
+    const orch = new PresentationOrchestrator({
+      stages: [
+        {
+          name: 'glossary',
+          after: 'analyze',
+          run: (ctx) => {
+            order.push(`glossary:${ctx.layoutDecisions.length}`);
+            ctx.data.glossary = ['Raft'];
+          },
+        },
+      ],
+    });
+    orch.addStage({
+      name: 'disclaimer',
+      run: (ctx) => {
+        ctx.slides.push('---\nInternal use only');
+      },
+    });
+    const result = await orch.generate({ rawMarkdown: text });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(order).toEqual(['glossary:0']);
+    expect(result.value.data.glossary).toEqual(['Raft']);
+    expect(result.value.slides[result.value.slides.length - 1]).toContain('Internal use only');
+    expect(Object.keys(result.value.metrics.steps)).toEqual([
+      'analyze',
+      'glossary',
+      'layout',
+      'style',
+      'compose',
+      'disclaimer',
+    ]);
+  });
+
+  test('a failing stage applies its fallback instead of failing the run', async () => {
+    const orch = new PresentationOrchestrator({
+      stages: [
+        {
+          name: 'flaky',
+          after: 'style',
+          run: () => {
+            throw new Error('boom');
+          },
+          fallback: (ctx, error) => {
+            ctx.data.flaky = error.message;
+          },
+        },
+      ],
+    });
+    const result = await orch.generate({ rawMarkdown: text });
+    expect(result.ok).toBe(true);
+    if (result.ok) expect(result.value.data.flaky).toBe('boom');
+  });
+
+  test('hooks wrap built-in stages and see their results', async () => {
+    const seen: string[] = [];
+    const orch = new PresentationOrchestrator();
+    orch.addHook({
+      when: 'before',
+      stage: 'layout',
+      run: (ctx) => void seen.push(`before:${ctx.segments.length}`),
+    });
+    orch.addHook({
+      when: 'after',
+      stage: 'layout',
+      run: (ctx) => {
+        seen.push(`after:${ctx.segments.length}`);
+        ctx.layoutDecisions[0] = { type: 'quote', params: {}, rationale: 'hook', score: 1 };
+      },
+    });
+    orch.addHook({
+      when: 'after',
+      stage: 'style',
+      run: () => {
+        throw new Error('ignored');
+      },
+    });
+    const events: string[] = [];
+    for await (const event of orch.stream({ rawMarkdown: text })) {
+      if (event.type === 'layout') events.push(event.layoutDecisions[0].rationale);
+      if (event.type === 'done') events.push('done');
+    }
+    expect(seen).toEqual(['before:0', 'after:2']);
+    expect(events).toEqual(['hook', 'done']);
+  });
+
+  test('aborting inside a custom stage cancels before the next stage', async () => {
+    const controller = new AbortController();
+    const composed: number[] = [];
+    const orch = new PresentationOrchestrator({
+      stages: [{ name: 'stop', after: 'layout', run: () => controller.abort() }],
+      hooks: [{ when: 'before', stage: 'compose', run: () => void composed.push(1) }],
+    });
+    const result = await orch.generate({ rawMarkdown: text, abortSignal: controller.signal });
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error).toBeInstanceOf(GenerationCancelledError);
+    expect(composed).toEqual([]);
+  });
+});
+
+describe('PresentationOrchestrator - domain events', () => {
+  test('publishes typed events for every phase and slide', async () => {
+    const bus = new EventBus<PresentationEventMap>();
+    const orch = new PresentationOrchestrator({ eventBus: bus });
+    const slides: number[] = [];
+    bus.subscribe(DomainEvents.SLIDE_GENERATED, (e) => void slides.push(e.data.index));
+
+    const result = await orch.generate({
+      rawMarkdown: '# Deck\n\n## One\n\nFirst.\n\n## Two\n\nSecond.',
+    });
+    expect(result.ok).toBe(true);
+    const history = bus.getHistory();
+    const types = history.map((e) => e.type);
+    expect(types[0]).toBe(DomainEvents.PRESENTATION_GENERATION_STARTED);
+    expect(types).toContain(DomainEvents.CONTENT_ANALYSIS_COMPLETED);
+    expect(types).toContain(DomainEvents.STYLE_DECISION_MADE);
+    expect(types.filter((t) => t === DomainEvents.LAYOUT_DECISION_MADE)).toHaveLength(3);
+    expect(types[types.length - 1]).toBe(DomainEvents.PRESENTATION_GENERATION_COMPLETED);
+    expect(slides).toEqual([0, 1, 2]);
+    const runIds = new Set(history.map((e) => (e.data as { runId: string }).runId));
+    expect(runIds.size).toBe(1);
+  });
+
+  test('a stalled listener does not hold up the run; the history keeps summaries', async () => {
+    const bus = new EventBus<PresentationEventMap>({
+      summarizeForHistory: summarizePresentationEvent,
+    });
+    bus.subscribe(DomainEvents.SLIDE_GENERATED, () => new Promise<void>(() => {}));
+    const result = await new PresentationOrchestrator({ eventBus: bus }).generate({
+      rawMarkdown: '## One\n\nFirst slide text.',
+    });
+    expect(result.ok).toBe(true);
+    const slide = bus.getHistory().find((e) => e.type === DomainEvents.SLIDE_GENERATED);
+    expect(slide?.data).toEqual({
+      runId: expect.any(String),
+      index: 0,
+      total: 1,
+      characters: expect.any(Number),
+    });
+    expect(JSON.stringify(bus.getHistory())).not.toContain('First slide text.');
+  });
+
+  test('publishes a cancelled failure when aborted', async () => {
+    const bus = new EventBus<PresentationEventMap>();
+    const failures: boolean[] = [];
+    bus.subscribe(
+      DomainEvents.PRESENTATION_GENERATION_FAILED,
+      (e) => void failures.push(e.data.cancelled),
+    );
+    const controller = new AbortController();
+    controller.abort();
+    await new PresentationOrchestrator({ eventBus: bus }).generate({
+      rawMarkdown: 'Text.',
+      abortSignal: controller.signal,
+    });
+    expect(failures).toEqual([true]);
+  });
+});
+
+describe('PresentationOrchestrator - generation parameters', () => {
+  const text =
+    '# Deck\n\n## Pros and cons\n\nPros: fast. Cons: costly.\n\n## Steps\n\n- one\n- two';
+
+  test('applies layout strategy, transition and forced theme', async () => {
+    const orch = new PresentationOrchestrator();
+    const result = await orch.generate({
+      rawMarkdown: text,
+      theme: 'academic',
+      layoutStrategy: 'minimal',
+      transition: 'fade',
+      language: 'pl',
+      overrides: ['theme', 'transition'],
+    });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    const { layoutDecisions, slides, theme, metrics, parameters } = result.value;
+    expect(layoutDecisions.map((d) => d.type)).toEqual(['title', 'default', 'default']);
+    expect(slides.every((s) => s.includes('data-transition=fade'))).toBe(true);
+    expect(theme.rationale).toBe('note-override');
+    expect(metrics.overrides).toEqual(['theme', 'transition']);
+    expect(parameters).toEqual({
+      maxSlides: undefined,
+      theme: theme.name,
+      layoutStrategy: 'minimal',
+      transition: 'fade',
+      language: 'pl',
+    });
+  });
+
+  test('defaults to the auto strategy without transitions', async () => {
+    const result = await new PresentationOrchestrator().generate({ rawMarkdown: text });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.layoutDecisions.map((d) => d.type)).toContain('comparison');
+    expect(result.value.slides.some((s) => s.includes('data-transition'))).toBe(false);
+    expect(result.value.metrics.overrides).toBeUndefined();
+  });
+});
+
+describe('PresentationOrchestrator - inline directives', () => {
+  test('directives pin layouts ahead of the rules and skip slides', async () => {
+    const text = [
+      '## Quote-like',
+      '<!-- slides: layout=comparison transition=zoom -->',
+      'She said "faster" and "cheaper".',
+      '',
+      '## Hidden',
+      '%% slides: skip %%',
+      'Draft notes.',
+      '',
+      '## Plain',
+      '> Hello.',
+    ].join('\n');
+    const result = await new PresentationOrchestrator().generate({ rawMarkdown: text });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    const [pinned, heuristic] = result.value.layoutDecisions;
+    expect(result.value.slides).toHaveLength(2);
+    expect(pinned.type).toBe('comparison');
+    expect(pinned.rationale).toBe('user-directive');
+    expect(pinned.params.transition).toBe('zoom');
+    expect(heuristic.type).toBe('quote');
+    expect(result.value.slides.join('\n')).not.toContain('layout=comparison');
+  });
+
+  test('changing a directive recomposes a preserved slide', async () => {
+    const orch = new PresentationOrchestrator();
+    const first = await orch.generate({ rawMarkdown: '## A\n\nShe said "yes".' });
+    expect(first.ok).toBe(true);
+    if (!first.ok) return;
+    const second = await orch.generate({
+      rawMarkdown: '## A\n<!-- slides: layout=default -->\nShe said "yes".',
+      previousDeck: first.value.slides.join('\n\n'),
+    });
+    expect(second.ok).toBe(true);
+    if (!second.ok) return;
+    expect(second.value.metrics.segments?.preserved).toBe(0);
+    expect(second.value.layoutDecisions[0].type).toBe('default');
+  });
+});
+
+describe('PresentationOrchestrator - prompt-only generation', () => {
+  const drafter = (overrides: Partial<DeckDrafter> = {}): DeckDrafter => ({
+    generateTitle: async () => '"Solar Power 101"',
+    generateOutline: async () => ['1. How panels work', 'Costs', 'Outlook'],
+    generateSlide: async (_topic, point) => [`${point} first`, `${point} second`],
+    summarize: async () => ['Condensed point'],
+    ...overrides,
+  });
+
+  test('drafts title, outline and bullets through the text generator', async () => {
+    const orch = new PresentationOrchestrator({ textGenerator: () => drafter() });
+    const result = await orch.generateFromPrompt({ prompt: 'solar power for students' });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.slides).toHaveLength(4);
+    expect(result.value.layoutDecisions[0].type).toBe('title');
+    expect(result.value.slides[0]).toContain('# Solar Power 101');
+    expect(result.value.slides[1]).toContain('## How panels work');
+    expect(result.value.slides[1]).toContain('- How panels work first');
+    expect(result.value.metrics.draft).toBe('text-generator');
+    expect(result.value.metrics.steps.draft).toBeGreaterThanOrEqual(0);
+  });
+
+  test('passes the seed to every drafting call and records it in the fingerprint', async () => {
+    const seeds: Array<number | undefined> = [];
+    const textGenerator = drafter({
+      info: { id: 'textgen', name: 'Text Generator', version: '3.0.0' },
+      generateTitle: async (_topic, _signal, seed) => (seeds.push(seed), 'Title'),
+      generateOutline: async (_topic, _signal, seed) => (seeds.push(seed), ['A', 'B', 'C']),
+      generateSlide: async (_topic, point, _signal, seed) => (seeds.push(seed), [point, 'x']),
+    });
+    const orch = new PresentationOrchestrator({ textGenerator: () => textGenerator });
+    const result = await orch.generateFromPrompt({ prompt: 'seeded topic', seed: 1234 });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(seeds).toEqual([1234, 1234, 1234, 1234, 1234]);
+    expect(result.value.fingerprint).toMatchObject({ adapters: ['textgen@3.0.0'], seed: 1234 });
+    expect(result.value.deck).toContain('  adapters: "textgen@3.0.0"\n  seed: 1234\n');
+
+    const unseeded = await orch.generateFromPrompt({ prompt: 'seeded topic' });
+    const again = await orch.generateFromPrompt({ prompt: 'seeded topic' });
+    expect(unseeded.ok && again.ok).toBe(true);
+    if (!unseeded.ok || !again.ok) return;
+    expect(again.value.fingerprint).toEqual(unseeded.value.fingerprint);
+    expect(again.value.deck).toBe(unseeded.value.deck);
+  });
+
+  test('a failed slide keeps its heading and the outline is capped by maxSlides', async () => {
+    const textGenerator = drafter({
+      generateOutline: async () => ['A', 'B', 'C', 'D', 'E', 'F', 'G'],
+      generateSlide: async (_topic, point) => {
+        if (point === 'B') throw new Error('rate limited');
+        return ['x', 'y'];
+      },
+    });
+    const orch = new PresentationOrchestrator({ textGenerator: () => textGenerator });
+    const result = await orch.generateFromPrompt({ prompt: 'letters', maxSlides: 5 });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.slides).toHaveLength(5);
+    expect(result.value.slides[2]).toContain('## B');
+  });
+
+  test('falls back to the heuristic pipeline without a text generator', async () => {
+    const result = await new PresentationOrchestrator().generateFromPrompt({
+      prompt: 'Quarterly results for the board',
+    });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.metrics.draft).toBe('prompt');
+    expect(result.value.slides.join('\n')).toContain('Quarterly results for the board');
+  });
+
+  test('cancelling while drafting returns GenerationCancelledError', async () => {
+    const controller = new AbortController();
+    const textGenerator = drafter({
+      generateOutline: async () => {
+        controller.abort();
+        throw new AdapterError('Operation aborted', 'ABORTED');
+      },
+    });
+    const phases: string[] = [];
+    const orch = new PresentationOrchestrator({
+      textGenerator: () => textGenerator,
+      onProgress: (p) => phases.push(p.phase),
+    });
+    const result = await orch.generateFromPrompt({
+      prompt: 'topic',
+      abortSignal: controller.signal,
+    });
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.error).toBeInstanceOf(GenerationCancelledError);
+    expect(phases).toEqual(['drafting', 'drafting', 'cancelled']);
+  });
+});
+
+describe('PresentationOrchestrator - structural slides', () => {
+  const md = ['## Goals', 'Grow.', '', '## Risks', 'Churn.', '', '## Plan', 'Ship.'].join('\n');
+
+  test('frames the content and counts against maxSlides', async () => {
+    const result = await new PresentationOrchestrator().generate({
+      rawMarkdown: md,
+      title: 'Q3 review',
+      maxSlides: 5,
+      structure: { title: true, agenda: true, closing: true },
+    });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    const { slides } = result.value;
+    expect(slides).toHaveLength(5);
+    expect(slides[0]).toContain('# Q3 review');
+    // The agenda lists the slides left after folding the weakest section into a neighbour
+    expect(slides[1]).toMatch(/- Risks\n- Plan$/);
+    expect(slides[2]).toContain('Grow.');
+    expect(slides[4]).toContain('# Questions?');
+    expect(result.value.metrics.segments?.total).toBe(2);
+  });
+
+  test('an edited structural slide survives regeneration', async () => {
+    const input = { rawMarkdown: md, structure: { closing: true } };
+    const first = await new PresentationOrchestrator().generate(input);
+    expect(first.ok).toBe(true);
+    if (!first.ok) return;
+    const edited = first.value.deck.replace('Thank you', 'Thanks, team');
+    const second = await new PresentationOrchestrator().generate({
+      ...input,
+      previousDeck: edited,
+    });
+    expect(second.ok && second.value.slides[3]).toContain('Thanks, team');
+  });
+});
+
+describe('PresentationOrchestrator - fingerprint', () => {
+  test('explains how a run differs from the one that wrote the previous deck', async () => {
+    const orch = new PresentationOrchestrator();
+    const md = '# Deck\n\nIntro.\n\n## Part\n\n- one\n- two';
+    const first = await orch.generate({ rawMarkdown: md });
+    expect(first.ok).toBe(true);
+    if (!first.ok) return;
+    expect(first.value.metrics.fingerprintChanges).toBeUndefined();
+
+    const same = await orch.generate({ rawMarkdown: md, previousDeck: first.value.deck });
+    expect(same.ok && same.value.metrics.fingerprintChanges).toEqual([]);
+
+    const changed = await orch.generate({
+      rawMarkdown: md,
+      previousDeck: first.value.deck,
+      transition: 'fade',
+      seed: 5,
+    });
+    expect(changed.ok && changed.value.metrics.fingerprintChanges).toEqual([
+      'generation settings changed',
+      `seed ${first.value.fingerprint.seed} → 5`,
+    ]);
+  });
+
+  test('a changed fingerprint recomposes every slide of the previous deck', async () => {
+    const orch = new PresentationOrchestrator();
+    const md = '## Intro\n\nHello world.\n\n## Budget\n\nNumbers.';
+    const first = await orch.generate({ rawMarkdown: md, structure: { closing: true } });
+    expect(first.ok).toBe(true);
+    if (!first.ok) return;
+    const edited = first.value.deck.replace('Hello world.', 'Hello edited world.');
+
+    const same = await orch.generate({
+      rawMarkdown: md,
+      structure: { closing: true },
+      previousDeck: edited,
+    });
+    expect(same.ok && same.value.metrics.segments?.preserved).toBe(2);
+    expect(same.ok && same.value.slides[0]).toContain('Hello edited world.');
+
+    const reseeded = await orch.generate({
+      rawMarkdown: md,
+      structure: { closing: true },
+      previousDeck: edited,
+      seed: 7,
+    });
+    expect(reseeded.ok).toBe(true);
+    if (!reseeded.ok) return;
+    expect(reseeded.value.metrics.fingerprintChanges).toHaveLength(1);
+    expect(reseeded.value.metrics.segments?.preserved).toBe(0);
+    expect(reseeded.value.slides[0]).toContain('Hello world.');
+  });
+
+  test('editing the note keeps the untouched slides of a fingerprinted deck', async () => {
+    const orch = new PresentationOrchestrator();
+    const md = '## Intro\n\nHello world.\n\n## Budget\n\nNumbers.\n\n## Plan\n\nSteps.';
+    const first = await orch.generate({ rawMarkdown: md });
+    expect(first.ok).toBe(true);
+    if (!first.ok) return;
+    const edited = first.value.deck.replace('Hello world.', 'Hello edited world.');
+
+    const second = await orch.generate({
+      rawMarkdown: md.replace('Steps.', 'More steps.'),
+      previousDeck: edited,
+    });
+    expect(second.ok).toBe(true);
+    if (!second.ok) return;
+    expect(second.value.metrics.segments).toMatchObject({ total: 3, preserved: 2, composed: 1 });
+    expect(second.value.slides[0]).toContain('Hello edited world.');
+    expect(second.value.slides[2]).toContain('More steps.');
+  });
+});
+
+describe('PresentationOrchestrator - slide budget', () => {
+  test('condenses merged segments that overflow through the text generator', async () => {
+    const long = Array.from({ length: 25 }, (_, i) => `Line ${i + 1}.`).join('\n');
+    const summarize = jest.fn(async () => ['- First takeaway', 'Second takeaway']);
+    const textGenerator = () => ({
+      generateTitle: async () => '',
+      generateOutline: async () => [],
+      generateSlide: async () => [],
+      summarize,
+    });
+    const orch = new PresentationOrchestrator({ textGenerator });
+    const result = await orch.generate({
+      rawMarkdown: `## Details\n${long}\n\n## Notes\nShort.`,
+      maxSlides: 1,
+      condense: true,
+    });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(summarize).toHaveBeenCalledTimes(1);
+    expect(result.value.fingerprint.adapters).toEqual(['text-generator']);
+    expect(result.value.slides[0]).toContain('- First takeaway\n- Second takeaway');
+    expect(result.value.metrics.folding?.condensed).toHaveLength(1);
+  });
 });
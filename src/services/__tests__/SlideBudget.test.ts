@@ -0,0 +1,64 @@
+import { AnalyzerService } from '../AnalyzerService';
+import { segmentDocument } from '../DocumentSegmenter';
+import { foldSegments, segmentValue } from '../SlideBudget';
+
+describe('SlideBudget', () => {
+  const md = [
+    '# Cloud migration',
+    '',
+    '## Kubernetes rollout',
+    'Kubernetes clusters host every service.',
+    'Kubernetes upgrades run monthly.',
+    '',
+    '## Misc',
+    'Parking.',
+    '',
+    '## Kubernetes costs',
+    'Kubernetes nodes cost less on spot capacity.',
+    '',
+    '## Lunch',
+    'Pizza.',
+  ].join('\n');
+  const analysis = new AnalyzerService().analyze(md);
+
+  test('values key-topic segments above filler and protects titles', () => {
+    const [title, rollout, misc] = segmentDocument(md);
+    expect(segmentValue(title, analysis)).toBe(Infinity);
+    expect(segmentValue(rollout, analysis)).toBeGreaterThan(segmentValue(misc, analysis));
+  });
+
+  test('folds low-value segments into neighbours and reports them', () => {
+    const segments = segmentDocument(md);
+    const { segments: fitted, report } = foldSegments(segments, 3, analysis);
+    expect(fitted).toHaveLength(3);
+    expect(fitted[0].heading?.title).toBe('Cloud migration');
+    expect(fitted.map((s) => s.heading?.title)).toEqual(
+      expect.arrayContaining(['Kubernetes rollout', 'Kubernetes costs']),
+    );
+    const folded = report.merges.flatMap((m) => m.folded).sort();
+    expect(folded).toEqual(['Lunch', 'Misc']);
+    expect(report).toMatchObject({ limit: 3, segments: 5, dropped: [] });
+    expect(fitted.map((s) => s.text).join('\n')).toContain('Pizza.');
+  });
+
+  test('merged content keeps the order of the note', () => {
+    const note = [
+      '## Notes',
+      'Misc.',
+      '',
+      '## Kubernetes plan',
+      'Kubernetes clusters host services. Kubernetes upgrades run monthly.',
+    ].join('\n');
+    const { segments, report } = foldSegments(segmentDocument(note), 1, analysis);
+    expect(report.merges).toEqual([{ into: 'Kubernetes plan', folded: ['Notes'] }]);
+    expect(segments[0].text).toMatch(/^## Notes\s+Misc\.\s+## Kubernetes plan\s/);
+    expect(segments[0].blocks[0].text).toBe('## Notes');
+  });
+
+  test('drops trailing segments only when protected ones exceed the limit', () => {
+    const titles = segmentDocument('# One\n\nA.\n\n# Two\n\nB.\n\n# Three\n\nC.');
+    const { segments, report } = foldSegments(titles, 2, analysis);
+    expect(segments).toHaveLength(2);
+    expect(report.dropped).toEqual(['Three']);
+  });
+});
@@ -1,4 +1,4 @@
-import { SlideComposer } from '../SlideComposer';
+import { SlideComposer, extractSegmentSlides, segmentMarker } from '../SlideComposer';
 import { createDefaultLayoutEngine } from '../LayoutEngine';
 import { StyleService } from '../StyleService';
 
@@ -79,4 +79,170 @@ describe('SlideComposer - 5.2', () => {
     const out = res.value[0];
     expect(out).not.toContain('..');
   });
+
+  test('keeps section headings and passes fenced code through verbatim', () => {
+    const paragraphs = [
+      '## Setup\n\n- install\n- configure',
+      '## Code\n\n```ts\nconst a = b * c;\n```',
+    ];
+    const decisions = createDefaultLayoutEngine().decideBatch(paragraphs);
+    const theme = new StyleService().decideFromAnalysis({
+      audience: 'general',
+      domain: 'general',
+      tone: 'formal',
+    });
+    const res = new SlideComposer({ maxLinesPerSlide: 3 }).composeSlides(
+      paragraphs,
+      decisions,
+      theme,
+    );
+    expect(res.ok).toBe(true);
+    if (!res.ok) return;
+    expect(res.value[0]).toMatch(/## Setup\n- install\n- configure/);
+    expect(res.value[1]).toContain('## Code');
+    expect(res.value[1]).toContain('const a = b * c;');
+    expect(res.value[1].match(/```/g)?.length).toBe(2);
+  });
+
+  test('leaves math, inline code and list numbering as written', () => {
+    const paragraphs = [
+      'Yield of $C_6H_{12}O_6$ with `max_rate`, not a_b:\n\n$$a_1 < b_2$$',
+      '1. first_step\n2. second\n   - nested',
+    ];
+    const theme = new StyleService().decideFromAnalysis({
+      audience: 'general',
+      domain: 'general',
+      tone: 'formal',
+    });
+    const decisions = createDefaultLayoutEngine().decideBatch(paragraphs);
+    const res = new SlideComposer().composeSlides(paragraphs, decisions, theme);
+    expect(res.ok).toBe(true);
+    if (!res.ok) return;
+    expect(res.value[0]).toContain('Yield of $C_6H_{12}O_6$ with `max_rate`, not a\\_b:');
+    expect(res.value[0]).toContain('$$a_1 &lt; b_2$$');
+    expect(res.value[1]).toMatch(/1\. first_step\n2\. second\n {3}- nested$/);
+  });
+
+  test('comparison and quote slides keep the blocks they do not transform', () => {
+    const theme = new StyleService().decideFromAnalysis({
+      audience: 'general',
+      domain: 'general',
+      tone: 'formal',
+    });
+    const comparison = [
+      '## Options',
+      'Two ways to cache.',
+      'Pros:',
+      '- fast',
+      '- simple',
+      'Cons: stale reads',
+      '| Step | Cost |\n| --- | --- |\n| 1 | low |\n| 2 | high |',
+      '```ts\nconst x = "y";\n```',
+    ].join('\n\n');
+    const quote = '## Voices\n\n> First line\n> second line\n\nSaid at the launch.';
+    const decide = (type: 'comparison' | 'quote') => ({
+      ...createDefaultLayoutEngine().decide(''),
+      type,
+    });
+    const res = new SlideComposer().composeSlides(
+      [comparison, quote],
+      [decide('comparison'), decide('quote')],
+      theme,
+    );
+    expect(res.ok).toBe(true);
+    if (!res.ok) return;
+    expect(res.value[0]).toContain('Two ways to cache.');
+    expect(res.value[0]).toContain('::: split\n- fast\n- simple\n:::\n- stale reads\n:::');
+    expect(res.value[0]).toContain('::: split\n**Step**\n- 1\n- 2\n:::\n**Cost**\n- low\n- high');
+    expect(res.value[0]).toContain('```ts\nconst x = "y";\n```');
+    expect(res.value[1]).toMatch(/> First line\n> second line\nSaid at the launch\.$/);
+  });
+
+  test('segment markers round-trip through a written deck', () => {
+    const deck = [
+      `${segmentMarker('a1')}\n<!-- slide:class=x -->\n---\nFirst`,
+      `${segmentMarker('b2')}\n<!-- slide:class=x -->\n---\nSecond\nedited`,
+    ].join('\n\n');
+    const slides = extractSegmentSlides(deck);
+    expect(Array.from(slides.keys())).toEqual(['a1', 'b2']);
+    expect(slides.get('a1')).toMatch(/First$/);
+    expect(slides.get('b2')).toMatch(/Second\nedited$/);
+  });
+});
+
+describe('SlideComposer - overflow', () => {
+  const theme = new StyleService().decideFromAnalysis({
+    audience: 'general',
+    domain: 'general',
+    tone: 'formal',
+  });
+  const text = ['## Steps', '- one', '- two', '- three', '- four', '- five'].join('\n');
+  const list = createDefaultLayoutEngine().decideBatch([text]);
+
+  test('overflow goes to speaker notes by default', () => {
+    const res = new SlideComposer({ maxLinesPerSlide: 2 }).composeSlides([text], list, theme);
+    expect(res.ok).toBe(true);
+    if (!res.ok) return;
+    expect(res.value[0]).toMatch(/- one\n- two\n\nnote:\n- three\n- four\n- five$/);
+  });
+
+  test('split mode continues on extra slides and reopens cut code fences', () => {
+    const code = ['```ts', 'const a = 1;', 'const b = 2;', 'const c = 3;', '```'].join('\n');
+    const composer = new SlideComposer({ maxLinesPerSlide: 3, overflow: 'split' });
+    const res = composer.composeSlides(
+      [text, code],
+      [list[0], { ...list[0], type: 'default' }],
+      theme,
+    );
+    expect(res.ok).toBe(true);
+    if (!res.ok) return;
+    expect(res.value[0].split('\n---\n')).toHaveLength(3);
+    expect(res.value[0]).toMatch(/## Steps\n- four\n- five$/);
+    expect(res.value[0]).not.toContain('note:');
+    const pages = res.value[1].split('\n---\n').slice(1);
+    expect(pages).toHaveLength(2);
+    expect(pages[0]).toMatch(/^```ts\nconst a = 1;\nconst b = 2;\n```/);
+    expect(pages[1]).toMatch(/^```ts\nconst c = 3;\n```/);
+  });
+
+  test('a fence closing right after the cut stays on its slide', () => {
+    const code = ['```ts', 'const a = 1;', 'const b = 2;', '```'].join('\n');
+    const composer = new SlideComposer({ maxLinesPerSlide: 3, overflow: 'split' });
+    const res = composer.composeSlides([code], [{ ...list[0], type: 'default' }], theme);
+    expect(res.ok).toBe(true);
+    if (!res.ok) return;
+    expect(res.value[0].split('\n---\n')).toHaveLength(2);
+    expect(res.value[0]).toMatch(/const b = 2;\n```$/);
+  });
+
+  test('sparse sections carry fewer lines per slide, dense ones more', () => {
+    const composer = new SlideComposer({ maxLinesPerSlide: 4 });
+    const [decision] = list;
+    const sparse = { ...decision, params: { ...decision.params, density: 'sparse' as const } };
+    const dense = { ...decision, params: { ...decision.params, density: 'dense' as const } };
+    const res = composer.composeSlides([text, text], [sparse, dense], theme);
+    expect(res.ok).toBe(true);
+    if (!res.ok) return;
+    expect(res.value[0]).toContain(' density-sparse -->');
+    expect(res.value[0]).toMatch(/- two\n\nnote:\n- three\n- four\n- five$/);
+    expect(res.value[1]).toContain(' density-dense -->');
+    expect(res.value[1]).not.toContain('note:');
+  });
+
+  test('source notes carry the full paragraph, per call options win', () => {
+    const composer = new SlideComposer({ maxLinesPerSlide: 20, overflow: 'split' });
+    const res = composer.composeSlides(
+      ['Short *point*.'],
+      [{ ...list[0], type: 'default' }],
+      theme,
+      undefined,
+      {
+        overflow: 'notes',
+        sourceNotes: true,
+      },
+    );
+    expect(res.ok).toBe(true);
+    if (!res.ok) return;
+    expect(res.value[0]).toMatch(/Short \\\*point\\\*\.\n\nnote:\nShort \\\*point\\\*\.$/);
+  });
 });
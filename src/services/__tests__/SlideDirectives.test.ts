@@ -0,0 +1,34 @@
+import { isDirectiveLine, mergeDirectives, parseDirective } from '../SlideDirectives';
+
+describe('SlideDirectives', () => {
+  test('parses HTML comment and Obsidian comment directives', () => {
+    expect(parseDirective('<!-- slides: layout=comparison transition=fade -->')).toEqual({
+      layout: 'comparison',
+      transition: 'fade',
+    });
+    expect(parseDirective('%% slides: skip %%')).toEqual({ skip: true });
+    expect(parseDirective('<!-- slides: Layout=LIST columns=2 variant=right -->')).toEqual({
+      layout: 'list',
+      columns: 2,
+      variant: 'right',
+    });
+  });
+
+  test('keeps unknown tokens aside and ignores other comments', () => {
+    expect(parseDirective('<!-- slides: layout=carousel speed=2 -->')).toEqual({
+      ignored: ['layout=carousel', 'speed=2'],
+    });
+    expect(parseDirective('<!-- just a note -->')).toBeNull();
+    expect(isDirectiveLine('Text <!-- slides: skip --> inline')).toBe(false);
+  });
+
+  test('mergeDirectives lets later options win', () => {
+    expect(mergeDirectives([])).toBeUndefined();
+    expect(
+      mergeDirectives([
+        { layout: 'quote', ignored: ['x'] },
+        { layout: 'list', skip: false },
+      ]),
+    ).toEqual({ layout: 'list', skip: false, ignored: ['x'] });
+  });
+});
@@ -0,0 +1,63 @@
+import { AnalyzerService } from '../AnalyzerService';
+import { segmentDocument } from '../DocumentSegmenter';
+import { themeForAudience } from '../StyleService';
+import {
+  DECK_TEMPLATES,
+  StructuralSlideBuilder,
+  StructuralSlideContext,
+} from '../StructuralSlides';
+import { TemplateService } from '../TemplateService';
+import { slideClasses } from '../SlideComposer';
+
+describe('StructuralSlides', () => {
+  const context = (markdown: string, deckTitle?: string): StructuralSlideContext => ({
+    deckTitle,
+    analysis: new AnalyzerService().analyze(markdown),
+    segments: segmentDocument(markdown),
+    theme: themeForAudience('business'),
+  });
+  const builder = new StructuralSlideBuilder();
+
+  test('title slide uses the deck title and purpose, unless the note opens with an H1', () => {
+    const slide = builder.build('title', context('## Intro\n\nLearn the basics.', 'Roadmap'));
+    expect(slide.ok && slide.value).toMatch(
+      /^<!-- slide:class=theme-business-professional .* -->\n---\n# Roadmap\n\n\w+/,
+    );
+    const own = builder.build('title', context('# Own title\n\nText.', 'Roadmap'));
+    expect(own.ok && own.value).toBeNull();
+  });
+
+  test('agenda lists top-level sections and falls back to key topics', () => {
+    const md = '# Deck\n\n## Goals\n\nA.\n\n### Detail\n\nB.\n\n## Risks\n\nC.';
+    const agenda = builder.build('agenda', context(md));
+    expect(agenda.ok && agenda.value).toContain('## Agenda\n\n- Goals\n- Risks');
+
+    const prose = 'Kubernetes clusters schedule containers. Kubernetes nodes run containers.';
+    const topics = builder.build('agenda', context(prose));
+    expect(topics.ok && topics.value).toContain('- kubernetes');
+    const empty = builder.build('agenda', context('Hi.'));
+    expect(empty.ok && empty.value).toBeNull();
+  });
+
+  test('closing slide asks for questions', () => {
+    const closing = builder.build('closing', context('Text.'));
+    expect(closing.ok && closing.value).toContain('# Questions?');
+  });
+
+  test('deck templates pass the template schema and render as TemplateService renders them', () => {
+    const templates = Object.fromEntries(Object.values(DECK_TEMPLATES).map((t) => [t.id, t]));
+    const service = new TemplateService({ templates });
+    expect(service.validateSet().ok).toBe(true);
+    const md = '# Deck\n\n## Goals *now*\n\nA.\n\n## Risks\n\nB.';
+    const agenda = builder.build('agenda', context(md));
+    const rendered = service.render({
+      templateId: 'deck:agenda',
+      values: {
+        slideClass: slideClasses(themeForAudience('business')),
+        heading: 'Agenda',
+        items: '- Goals *now*\n- Risks',
+      },
+    });
+    expect(rendered.ok && agenda.ok && rendered.value.text).toBe(agenda.ok && agenda.value);
+  });
+});
@@ -34,4 +34,34 @@ describe('StyleService - 3.3.1', () => {
     const d = svc.decide({ domain: 'general', audience: 'general', tone: 'inspire' });
     expect(d.name.toLowerCase()).toContain('creative');
   });
+
+  test('falls back to preferred theme when no rule matches', () => {
+    const svc = new StyleService();
+    const d = svc.decide({ domain: 'general', audience: 'general', tone: 'formal' }, 'academic');
+    expect(d.name.toLowerCase()).toContain('academic');
+    const neutral = svc.decide({ domain: 'general', audience: 'general', tone: 'formal' });
+    expect(neutral.name.toLowerCase()).toContain('neutral');
+  });
+
+  test('ignores low-confidence fields and falls back to the preferred theme', () => {
+    const svc = new StyleService();
+    const unsure = { score: 0.2 };
+    const sure = { score: 0.8 };
+    const guess = svc.decideFromAnalysis(
+      {
+        domain: 'technology',
+        audience: 'general',
+        tone: 'formal',
+        confidence: { domain: unsure, audience: unsure, tone: unsure },
+      },
+      'academic',
+    );
+    expect(guess.name).toBe('Academic Classic');
+    expect(guess.rationale).toContain('domain too uncertain for Developer Dark');
+    const confident = svc.decideFromAnalysis(
+      { domain: 'technology', audience: 'general', tone: 'formal', confidence: { domain: sure } },
+      'academic',
+    );
+    expect(confident.name).toBe('Developer Dark');
+  });
 });
@@ -0,0 +1,106 @@
+import { App, FuzzySuggestModal, TFile, TFolder, getAllTags } from 'obsidian';
+import { isGeneratedNote } from '../services/BatchGeneration';
+
+/**
+ * Picks the notes of a batch run: every note below a folder, or every note carrying a tag.
+ * Decks, explain reports and summaries from earlier runs are never picked up again.
+ */
+
+export function notesInFolder(folder: TFolder): TFile[] {
+  const notes: TFile[] = [];
+  const visit = (folderToVisit: TFolder): void => {
+    for (const child of folderToVisit.children) {
+      if (child instanceof TFolder) visit(child);
+      else if (child instanceof TFile && isSourceNote(child)) notes.push(child);
+    }
+  };
+  visit(folder);
+  return notes.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/** Notes tagged `tag` or one of its nested tags (`#project` matches `#project/alpha`). */
+export function notesWithTag(app: App, tag: string): TFile[] {
+  const wanted = normalizeTag(tag);
+  return app.vault
+    .getMarkdownFiles()
+    .filter(isSourceNote)
+    .filter((file) => {
+      const cache = app.metadataCache.getFileCache(file);
+      const tags = cache ? getAllTags(cache) ?? [] : [];
+      return tags.some((t) => {
+        const normalized = normalizeTag(t);
+        return normalized === wanted || normalized.startsWith(`${wanted}/`);
+      });
+    })
+    .sort((a, b) => a.path.localeCompare(b.path));
+}
+
+export function allTags(app: App): string[] {
+  const tags = new Set<string>();
+  for (const file of app.vault.getMarkdownFiles()) {
+    const cache = app.metadataCache.getFileCache(file);
+    (cache ? getAllTags(cache) ?? [] : []).forEach((t) => tags.add(normalizeTag(t)));
+  }
+  return Array.from(tags).sort();
+}
+
+export function chooseFolder(app: App): Promise<TFolder | null> {
+  const folders = app.vault
+    .getAllLoadedFiles()
+    .filter((f): f is TFolder => f instanceof TFolder)
+    .sort((a, b) => a.path.localeCompare(b.path));
+  return choose(app, folders, (f) => (f.isRoot() ? '/' : f.path), 'Folder to generate slides for');
+}
+
+export function chooseTag(app: App): Promise<string | null> {
+  return choose(app, allTags(app), (t) => t, 'Tag of the notes to generate slides for');
+}
+
+function isSourceNote(file: TFile): boolean {
+  return file.extension === 'md' && !isGeneratedNote(file.path);
+}
+
+function normalizeTag(tag: string): string {
+  return `#${tag.replace(/^#/, '').toLowerCase()}`;
+}
+
+class ChoiceModal<T> extends FuzzySuggestModal<T> {
+  constructor(
+    app: App,
+    private readonly items: T[],
+    private readonly label: (item: T) => string,
+    private readonly onChoose: (item: T | null) => void,
+  ) {
+    super(app);
+  }
+
+  getItems(): T[] {
+    return this.items;
+  }
+
+  getItemText(item: T): string {
+    return this.label(item);
+  }
+
+  onChooseItem(item: T): void {
+    this.onChoose(item);
+  }
+
+  onClose(): void {
+    // Obsidian closes the modal before reporting the chosen item; resolve with null only after
+    setTimeout(() => this.onChoose(null), 0);
+  }
+}
+
+function choose<T>(
+  app: App,
+  items: T[],
+  label: (item: T) => string,
+  placeholder: string,
+): Promise<T | null> {
+  return new Promise((resolve) => {
+    const modal = new ChoiceModal(app, items, label, resolve);
+    modal.setPlaceholder(placeholder);
+    modal.open();
+  });
+}
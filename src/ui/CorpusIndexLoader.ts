@@ -0,0 +1,87 @@
+import { App, TFolder } from 'obsidian';
+import { CorpusIndex } from '../services/CorpusIndex';
+import { normalizeVaultRelativePath } from '../security/SecureFileOperations';
+import { ILogger } from '../utils/Logger';
+import { notesInFolder } from './BatchSources';
+
+export interface CorpusLoadOptions {
+  signal?: AbortSignal; // stops reading notes; the notes read so far stay indexed
+  onProgress?: (read: number, total: number) => void; // notes read of those that changed
+}
+
+/**
+ * Keeps the keyphrase corpus of the vault (or of one folder) up to date. Only notes changed
+ * since the last run are read again, and the index is stored in the plugin folder, so a new
+ * session starts from where the last one stopped.
+ */
+export class CorpusIndexLoader {
+  private index: CorpusIndex | null = null;
+  private savedRevision = '';
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly app: App,
+    private readonly logger: ILogger,
+    private readonly cachePath: string, // e.g. `.obsidian/plugins/smart-slides/corpus-index.json`
+  ) {}
+
+  /**
+   * The index of the notes under `folder`, '' for the whole vault; null when the folder does not
+   * exist. Calls run one after the other, so the notes of a batch run are read only once.
+   */
+  load(folder: string, options: CorpusLoadOptions = {}): Promise<CorpusIndex | null> {
+    const next = this.queue.then(() => this.refresh(folder, options));
+    this.queue = next.catch(() => null);
+    return next;
+  }
+
+  private async refresh(folder: string, options: CorpusLoadOptions): Promise<CorpusIndex | null> {
+    const root = this.folder(folder);
+    if (!root) {
+      this.logger.warn('Keyphrase corpus folder not found', { folder });
+      return null;
+    }
+    if (!this.index) {
+      this.index = await this.restore();
+      this.savedRevision = this.index.revision;
+    }
+    const index = this.index;
+    const notes = notesInFolder(root);
+    index.retain(notes.map((note) => note.path));
+    const changed = notes.filter((note) => !index.isCurrent(note.path, note.stat.mtime));
+    for (const [read, note] of changed.entries()) {
+      if (options.signal?.aborted) break;
+      options.onProgress?.(read, changed.length);
+      index.add(note.path, note.stat.mtime, await this.app.vault.cachedRead(note));
+    }
+    await this.persist(index);
+    return index;
+  }
+
+  private folder(folder: string): TFolder | null {
+    if (folder.trim() === '') return this.app.vault.getRoot();
+    const safe = normalizeVaultRelativePath(folder);
+    const found = safe.ok ? this.app.vault.getAbstractFileByPath(safe.value.path) : null;
+    return found instanceof TFolder ? found : null;
+  }
+
+  private async restore(): Promise<CorpusIndex> {
+    try {
+      if (!(await this.app.vault.adapter.exists(this.cachePath))) return new CorpusIndex();
+      return CorpusIndex.fromJSON(JSON.parse(await this.app.vault.adapter.read(this.cachePath)));
+    } catch (e) {
+      this.logger.warn('Keyphrase corpus cache unreadable, rebuilding it', { error: String(e) });
+      return new CorpusIndex();
+    }
+  }
+
+  private async persist(index: CorpusIndex): Promise<void> {
+    if (index.revision === this.savedRevision) return;
+    try {
+      await this.app.vault.adapter.write(this.cachePath, JSON.stringify(index));
+      this.savedRevision = index.revision;
+    } catch (e) {
+      this.logger.warn('Could not store the keyphrase corpus', { error: String(e) });
+    }
+  }
+}
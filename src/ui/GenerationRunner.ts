@@ -0,0 +1,571 @@
+import { App, Notice, TFile } from 'obsidian';
+import {
+  GenerationCancelledError,
+  OrchestratorEvent,
+  OrchestratorInput,
+  OrchestratorOutput,
+  PresentationEventMap,
+  PresentationOrchestrator,
+} from '../services/PresentationOrchestrator';
+import { EventBus } from '../core/events/EventBus';
+import {
+  GenerationParameters,
+  NoteOverrides,
+  parseNoteOverrides,
+  resolveGenerationParameters,
+} from '../services/GenerationSettings';
+import { OverflowMode } from '../services/SlideComposer';
+import { DeckOptions, SLIDE_SEPARATOR, SlideSize } from '../services/DeckAssembler';
+import { FoldReport } from '../services/SlideBudget';
+import { renderExplainReport } from '../services/ExplainReport';
+import { readFingerprint } from '../services/GenerationFingerprint';
+import type { PhraseStats } from '../services/Keyphrases';
+import {
+  BatchItemResult,
+  BatchProgress,
+  eventProgress,
+  renderBatchSummary,
+  runWithConcurrency,
+} from '../services/BatchGeneration';
+import { SafePath, resolveOutputPath, resolveSiblingPath } from '../security/SecureFileOperations';
+import { Result, ok, err } from '../types/Result';
+import { ILogger } from '../utils/Logger';
+import { ProgressController, fromOrchestratorProgress } from './ProgressController';
+import { ProgressModal } from './ProgressModal';
+import { askPartialDeckAction } from './PartialDeckModal';
+import { findTextGenerator } from './TextGeneratorBridge';
+import { LexiconPackLoader } from './LexiconPackLoader';
+import { CorpusIndexLoader, CorpusLoadOptions } from './CorpusIndexLoader';
+
+/**
+ * Subset of plugin settings that influences a generation run.
+ */
+export type GenerationPreferences = Omit<GenerationParameters, 'theme'> & {
+  defaultTheme: GenerationParameters['theme'];
+  overflowMode: OverflowMode;
+  sourceInNotes: boolean;
+  condenseMerged: boolean;
+  slideSize: SlideSize;
+  showControls: boolean;
+  batchConcurrency: number;
+  lexiconPacksPath: string; // vault path of a lexicon pack JSON file, '' for none
+  keyphraseCorpus: boolean; // score key topics against the notes of the vault
+  corpusFolder: string; // vault folder of those notes, '' for the whole vault
+};
+
+// Where a run writes its deck, and what else it does with it
+interface DeckTarget {
+  path: string;
+  openDeck: boolean;
+  explain: boolean;
+  sourcePath?: string;
+}
+
+// Ties a pipeline run to the progress modal of the call that started it, along with the
+// keyphrase corpus read while that modal was already open
+type RunControl = Required<Pick<OrchestratorInput, 'abortSignal' | 'onProgress'>> &
+  Pick<OrchestratorInput, 'corpus'>;
+
+// A run resolved from a note, ready to start
+interface PreparedRun {
+  target: DeckTarget;
+  input: OrchestratorInput;
+  warnings: string[]; // ignored frontmatter values
+}
+
+export interface BatchRequest {
+  files: TFile[];
+  scope: string; // shown in the summary, e.g. 'folder Projects'
+  summaryPath: string; // vault path of the summary note
+}
+
+export interface GenerationRequest {
+  markdown: string;
+  sourceFile: TFile;
+  label?: string; // distinguishes partial decks, e.g. a section title
+  openDeck?: boolean; // default true
+}
+
+/**
+ * Runs the presentation pipeline for a note inside Obsidian: shows progress,
+ * writes the composed deck next to the source note (or where its `smart-slides:` frontmatter
+ * says) and opens it.
+ * The deck is written in a single vault operation once the pipeline has finished, so a
+ * cancelled or failed run never leaves a half-written file behind.
+ */
+export class GenerationRunner {
+  // Kept across runs so regenerating a note only recomputes the sections that changed
+  private readonly orchestrator: PresentationOrchestrator;
+  private readonly lexicons: LexiconPackLoader;
+  private readonly corpora: CorpusIndexLoader;
+
+  constructor(
+    private readonly app: App,
+    private readonly logger: ILogger,
+    eventBus?: EventBus<PresentationEventMap>,
+    corpusCachePath = `${app.vault.configDir}/smart-slides-corpus.json`,
+  ) {
+    this.lexicons = new LexiconPackLoader(app, logger);
+    this.corpora = new CorpusIndexLoader(app, logger, corpusCachePath);
+    this.orchestrator = new PresentationOrchestrator({
+      logger,
+      eventBus,
+      textGenerator: () => findTextGenerator(app, logger),
+    });
+  }
+
+  async run(
+    request: GenerationRequest,
+    preferences: GenerationPreferences,
+  ): Promise<Result<TFile, Error>> {
+    const prepared = await this.prepare(request, preferences);
+    if (!prepared.ok) return prepared;
+    const { target, input, warnings } = prepared.value;
+    if (warnings.length > 0) new Notice(`Smart Slides frontmatter: ${warnings.join('; ')}`);
+    return this.execute(target, preferences, (control) =>
+      this.orchestrator.stream({ ...input, ...control }),
+    );
+  }
+
+  /**
+   * Generates a deck for every note in `batch.files`, a few at a time, behind one combined
+   * progress view. A failing note does not stop the others; the summary note written at the end
+   * links every deck and lists the failures.
+   */
+  async runBatch(
+    batch: BatchRequest,
+    preferences: GenerationPreferences,
+  ): Promise<Result<TFile, Error>> {
+    const summaryPath = resolveOutputPath(batch.summaryPath, 'Slides Index.md');
+    if (!summaryPath.ok) return summaryPath;
+    const controller = new ProgressController();
+    new ProgressModal(this.app, controller, `Generating ${batch.files.length} decks…`).open();
+    const progress = new BatchProgress(batch.files.length);
+    const log: string[] = [];
+    const report = () => {
+      const { percent, completed, total, active } = progress.snapshot();
+      const running = active.map((path) => path.slice(path.lastIndexOf('/') + 1)).join(', ');
+      controller.update({
+        percent: Math.min(percent, 99),
+        phase: 'compose',
+        message: `${completed} of ${total} notes${running ? ` — ${running}` : ''}`,
+      });
+      controller.preview(log.join('\n'));
+    };
+
+    const startedAt = Date.now();
+    const settled = await runWithConcurrency(
+      batch.files,
+      preferences.batchConcurrency,
+      async (file) => {
+        progress.start(file.path);
+        report();
+        const result = await this.generateForBatch(file, preferences, controller.signal, (f) => {
+          progress.update(file.path, f);
+          report();
+        });
+        progress.finish(file.path);
+        log.push(batchLogLine(result));
+        report();
+        return result;
+      },
+      controller.signal,
+    );
+    const results = settled.map(
+      (r, i): BatchItemResult => r ?? { source: batch.files[i].path, status: 'skipped' },
+    );
+    this.logger.info('Batch generation finished', {
+      scope: batch.scope,
+      results: results.map((r) => r.status),
+    });
+    return this.finishBatch(batch, summaryPath.value.path, results, startedAt, controller);
+  }
+
+  private async finishBatch(
+    batch: BatchRequest,
+    summaryPath: string,
+    results: BatchItemResult[],
+    startedAt: number,
+    controller: ProgressController,
+  ): Promise<Result<TFile, Error>> {
+    try {
+      const summary = renderBatchSummary(results, {
+        scope: batch.scope,
+        startedAt,
+        finishedAt: Date.now(),
+      });
+      const note = await this.writeDeck(summaryPath, summary);
+      controller.update({ percent: 100, phase: 'finalize', message: 'Summary written' });
+      await this.app.workspace.getLeaf(true).openFile(note);
+      const generated = results.filter((r) => r.status === 'generated').length;
+      new Notice(`Generated ${generated} of ${results.length} decks; summary in ${note.path}`);
+      return ok(note);
+    } catch (e) {
+      const error = e instanceof Error ? e : new Error(String(e));
+      controller.fail(error.message);
+      return err(error);
+    }
+  }
+
+  /** One note of a batch: written without opening it; cancellation discards the deck. */
+  private async generateForBatch(
+    file: TFile,
+    preferences: GenerationPreferences,
+    signal: AbortSignal,
+    onProgress: (fraction: number) => void,
+  ): Promise<BatchItemResult> {
+    const source = file.path;
+    try {
+      const markdown = await this.app.vault.cachedRead(file);
+      const prepared = await this.prepare({ markdown, sourceFile: file }, preferences);
+      if (!prepared.ok) return { source, status: 'failed', error: prepared.error.message };
+      const { target, input, warnings } = prepared.value;
+      const corpus = await this.corpus(preferences, { signal });
+      const result = await streamOutput(
+        this.orchestrator.stream({ ...input, abortSignal: signal, corpus }),
+        (event) => {
+          const fraction = eventProgress(event);
+          if (fraction !== undefined) onProgress(fraction);
+        },
+      );
+      if (!result.ok) throw result.error;
+      const output = result.value;
+      await this.backupDeck(target.path, output.deck, output);
+      const deck = await this.writeDeck(target.path, output.deck);
+      if (target.explain) await this.writeReport(deck, output, source);
+      return {
+        source,
+        status: 'generated',
+        deckPath: deck.path,
+        slides: output.slides.length,
+        warnings,
+      };
+    } catch (e) {
+      if (e instanceof GenerationCancelledError) return { source, status: 'cancelled' };
+      const error = e instanceof Error ? e.message : String(e);
+      this.logger.warn('Batch item failed', { source, error });
+      return { source, status: 'failed', error };
+    }
+  }
+
+  /** Resolves a note's parameters (settings plus its frontmatter) and where its deck goes. */
+  private async prepare(
+    request: GenerationRequest,
+    preferences: GenerationPreferences,
+  ): Promise<Result<PreparedRun, Error>> {
+    const { overrides, warnings } = parseNoteOverrides(
+      this.app.metadataCache.getFileCache(request.sourceFile)?.frontmatter,
+    );
+    if (warnings.length > 0) {
+      this.logger.warn('Invalid smart-slides frontmatter', { warnings });
+    }
+    const params = resolveGenerationParameters(
+      { ...preferences, theme: preferences.defaultTheme },
+      overrides,
+    );
+    const deckPath = resolveDeckPath(request, overrides);
+    if (!deckPath.ok) return deckPath;
+
+    const previousDeck = await this.readExisting(deckPath.value.path);
+    const target: DeckTarget = {
+      path: deckPath.value.path,
+      openDeck: request.openDeck !== false,
+      explain: params.explain,
+      sourcePath: request.sourceFile.path,
+    };
+    const input: OrchestratorInput = {
+      rawMarkdown: request.markdown,
+      maxSlides: params.maxSlides,
+      preferredTheme: params.theme,
+      theme: overrides.theme,
+      layoutStrategy: params.layoutStrategy,
+      transition: params.transition,
+      language: params.language,
+      overflow: preferences.overflowMode,
+      sourceNotes: preferences.sourceInNotes,
+      condense: preferences.condenseMerged,
+      seed: overrides.seed,
+      lexicons: await this.lexicons.load(preferences.lexiconPacksPath),
+      overrides: Object.keys(overrides),
+      deck: deckOptions(preferences),
+      title: request.label
+        ? `${request.sourceFile.basename}: ${request.label}`
+        : request.sourceFile.basename,
+      structure: {
+        title: params.titleSlide,
+        agenda: params.agendaSlide,
+        closing: params.closingSlide,
+      },
+      previousDeck,
+    };
+    return ok({ target, input, warnings });
+  }
+
+  /**
+   * Prompt-only generation: the Text Generator plugin drafts the content when it is installed,
+   * otherwise the prompt itself is laid out. The deck is written to the vault root.
+   */
+  async runPrompt(
+    prompt: string,
+    preferences: GenerationPreferences,
+  ): Promise<Result<TFile, Error>> {
+    const deckPath = resolveOutputPath(promptDeckFileName(prompt), 'Slides.md');
+    if (!deckPath.ok) return deckPath;
+    const target = { path: deckPath.value.path, openDeck: true, explain: preferences.explain };
+    const lexicons = await this.lexicons.load(preferences.lexiconPacksPath);
+    return this.execute(target, preferences, (control) =>
+      this.orchestrator.streamFromPrompt({
+        prompt,
+        ...control,
+        maxSlides: preferences.maxSlides,
+        preferredTheme: preferences.defaultTheme,
+        layoutStrategy: preferences.layoutStrategy,
+        transition: preferences.transition,
+        language: preferences.language,
+        overflow: preferences.overflowMode,
+        sourceNotes: preferences.sourceInNotes,
+        condense: preferences.condenseMerged,
+        lexicons,
+        deck: deckOptions(preferences),
+        title: prompt,
+        structure: {
+          title: preferences.titleSlide,
+          agenda: preferences.agendaSlide,
+          closing: preferences.closingSlide,
+        },
+      }),
+    );
+  }
+
+  private async corpus(
+    preferences: GenerationPreferences,
+    options?: CorpusLoadOptions,
+  ): Promise<PhraseStats | undefined> {
+    if (!preferences.keyphraseCorpus) return undefined;
+    return (await this.corpora.load(preferences.corpusFolder, options)) ?? undefined;
+  }
+
+  /**
+   * Runs one generation behind its own progress modal. The controller belongs to this run
+   * alone, so runs started side by side never report into each other's modal. The keyphrase
+   * corpus is brought up to date behind the modal too: on a large vault the first run reads
+   * every note, and it can be cancelled like the rest of the run.
+   */
+  private async execute(
+    target: DeckTarget,
+    preferences: GenerationPreferences,
+    start: (control: RunControl) => AsyncIterable<OrchestratorEvent>,
+  ): Promise<Result<TFile, Error>> {
+    const { path, openDeck } = target;
+    const controller = new ProgressController();
+    new ProgressModal(this.app, controller).open();
+    const control: RunControl = {
+      abortSignal: controller.signal,
+      onProgress: (p) => controller.update(fromOrchestratorProgress(p)),
+    };
+    try {
+      control.corpus = await this.corpus(preferences, {
+        signal: controller.signal,
+        onProgress: (read, total) =>
+          controller.update({
+            percent: Math.floor((read / total) * 4),
+            phase: 'analysis',
+            message: `Indexing notes ${read + 1}/${total}`,
+          }),
+      });
+      // A run cancelled while indexing stops at the pipeline's first abort check
+      const result = await this.generateWithPreview(controller, start(control));
+      if (!result.ok) {
+        if (result.error instanceof GenerationCancelledError) {
+          return this.resolveCancelled(result.error, path, openDeck);
+        }
+        this.logger.error('Generation failed', { error: result.error.message });
+        controller.fail(result.error.message);
+        return result;
+      }
+      const { segments, draft, folding } = result.value.metrics;
+      this.logger.info('Generation completed', { segments, draft, folding });
+      if (folding) new Notice(foldingSummary(folding));
+      const deck = await this.publish(path, result.value.deck, openDeck, result.value);
+      if (target.explain) await this.writeReport(deck, result.value, target.sourcePath);
+      controller.update({ percent: 100, phase: 'finalize', message: 'Deck written' });
+      return ok(deck);
+    } catch (e) {
+      const error = e instanceof Error ? e : new Error(String(e));
+      this.logger.error('Writing deck failed', { error: error.message });
+      controller.fail(error.message);
+      return err(error);
+    }
+  }
+
+  /**
+   * Offers the slides composed before cancellation as a partial deck. Discarding leaves the
+   * vault untouched, including any deck written by an earlier run.
+   */
+  private async resolveCancelled(
+    cancelled: GenerationCancelledError,
+    path: string,
+    openDeck: boolean,
+  ): Promise<Result<TFile, Error>> {
+    this.logger.info('Generation cancelled', { partialSlides: cancelled.partialSlides.length });
+    const action =
+      cancelled.partialSlides.length > 0
+        ? await askPartialDeckAction(this.app, cancelled.partialSlides.length)
+        : 'discard';
+    if (action === 'discard') {
+      new Notice('Generation cancelled; no files were changed');
+      return err(cancelled);
+    }
+    const content = cancelled.partialDeck ?? cancelled.partialSlides.join(SLIDE_SEPARATOR);
+    return ok(await this.publish(path, content, openDeck));
+  }
+
+  /** Writes and opens a deck; without the run's `output` (a partial deck) it is backed up first. */
+  private async publish(
+    path: string,
+    content: string,
+    openDeck: boolean,
+    output?: OrchestratorOutput,
+  ) {
+    await this.backupDeck(path, content, output);
+    const deck = await this.writeDeck(path, content);
+    if (openDeck) await this.app.workspace.getLeaf(true).openFile(deck);
+    new Notice(`Slides written to ${deck.path}`);
+    return deck;
+  }
+
+  /** Explain mode: writes `<deck> - Explain.md` next to the deck. */
+  private async writeReport(deck: TFile, output: OrchestratorOutput, sourcePath?: string) {
+    const path = deck.path.replace(/\.md$/i, ' - Explain.md');
+    await this.writeDeck(path, renderExplainReport(output, { deckPath: deck.path, sourcePath }));
+    this.logger.info('Explain report written', { path });
+  }
+
+  /** Streams the pipeline so the progress modal can preview each slide as it is composed. */
+  private async generateWithPreview(
+    controller: ProgressController,
+    events: AsyncIterable<OrchestratorEvent>,
+  ): Promise<Result<OrchestratorOutput, Error>> {
+    return streamOutput(events, (event) => {
+      if (event.type === 'slide') controller.preview(slideBody(event.slide));
+    });
+  }
+
+  /**
+   * Copies the deck at `path` to `<deck> (backup).md` before `content` replaces it, when that
+   * could lose hand edits (see `losesEdits`); a partial deck, without `output`, always could.
+   */
+  private async backupDeck(path: string, content: string, output?: OrchestratorOutput) {
+    const existing = await this.readExisting(path);
+    if (existing === undefined || existing === content) return;
+    if (output && !losesEdits(existing, output)) return;
+    const backupPath = path.replace(/\.md$/i, ' (backup).md');
+    await this.writeDeck(backupPath, existing);
+    this.logger.info('Previous deck backed up', { path: backupPath });
+    new Notice(`The previous deck was saved to ${backupPath}`);
+  }
+
+  private async readExisting(path: string): Promise<string | undefined> {
+    const existing = this.app.vault.getAbstractFileByPath(path);
+    return existing instanceof TFile ? this.app.vault.read(existing) : undefined;
+  }
+
+  private async writeDeck(path: string, content: string): Promise<TFile> {
+    const existing = this.app.vault.getAbstractFileByPath(path);
+    if (existing instanceof TFile) {
+      await this.app.vault.modify(existing, content);
+      return existing;
+    }
+    // A frontmatter output path may point into a folder that does not exist yet
+    const folder = path.slice(0, path.lastIndexOf('/'));
+    if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+      await this.app.vault.createFolder(folder);
+    }
+    return this.app.vault.create(path, content);
+  }
+}
+
+function resolveDeckPath(
+  request: GenerationRequest,
+  overrides: NoteOverrides,
+): Result<SafePath, Error> {
+  const fileName = deckFileName(request.sourceFile, request.label);
+  return overrides.outputPath
+    ? resolveOutputPath(overrides.outputPath, fileName)
+    : resolveSiblingPath(request.sourceFile.path, fileName);
+}
+
+function deckFileName(source: TFile, label?: string): string {
+  const cleanLabel = (label ?? '')
+    .replace(/[\\/:*?"<>|#^[\]]/g, '')
+    .trim()
+    .slice(0, 60);
+  return cleanLabel
+    ? `${source.basename} - ${cleanLabel} - Slides.md`
+    : `${source.basename} - Slides.md`;
+}
+
+function promptDeckFileName(prompt: string): string {
+  const topic = prompt
+    .replace(/[\\/:*?"<>|#^[\]]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 60)
+    .trim();
+  return `${topic || 'Untitled'} - Slides.md`;
+}
+
+// Consumes the events of a run, passing each to `onEvent`, until its output or error arrives
+async function streamOutput(
+  events: AsyncIterable<OrchestratorEvent>,
+  onEvent: (event: OrchestratorEvent) => void,
+): Promise<Result<OrchestratorOutput, Error>> {
+  for await (const event of events) {
+    onEvent(event);
+    if (event.type === 'done') return ok(event.output);
+    if (event.type === 'error') return err(event.error);
+  }
+  return err(new Error('Generation ended without a result'));
+}
+
+function batchLogLine(result: BatchItemResult): string {
+  const name = result.source.slice(result.source.lastIndexOf('/') + 1);
+  switch (result.status) {
+    case 'generated':
+      return `✓ ${name} (${result.slides} slides)`;
+    case 'failed':
+      return `✗ ${name}: ${result.error}`;
+    default:
+      return `– ${name}: ${result.status}`;
+  }
+}
+
+function foldingSummary(folding: FoldReport): string {
+  const folded = folding.merges.reduce((n, m) => n + m.folded.length, 0);
+  const parts = [`Merged ${folded} of ${folding.segments} sections to fit ${folding.limit} slides`];
+  if (folding.condensed.length > 0) parts.push(`summarized ${folding.condensed.length}`);
+  if (folding.dropped.length > 0) parts.push(`left out ${folding.dropped.length}`);
+  return `${parts.join('; ')}.`;
+}
+
+/**
+ * Whether writing `output` over the deck `existing` could lose hand edits: the existing deck was
+ * not written by a generation run, or the new run kept none of its slides (it was configured
+ * differently, drafted from a prompt, or came out empty).
+ */
+function losesEdits(existing: string, output: OrchestratorOutput): boolean {
+  return readFingerprint(existing) === undefined || !output.metrics.segments?.preserved;
+}
+
+function deckOptions(preferences: GenerationPreferences): Omit<DeckOptions, 'transition'> {
+  return { size: preferences.slideSize, controls: preferences.showControls };
+}
+
+// Slide text without its annotation comments and separator, for the progress preview
+function slideBody(slide: string): string {
+  return slide
+    .split('\n')
+    .filter((line) => !/^<!--.*-->$/.test(line) && line !== '---')
+    .join('\n')
+    .trim();
+}
@@ -0,0 +1,45 @@
+import { App, Notice, TFile } from 'obsidian';
+import { LexiconPack, parseLexiconPacks } from '../services/LexiconPacks';
+import { normalizeVaultRelativePath } from '../security/SecureFileOperations';
+import { ILogger } from '../utils/Logger';
+
+/**
+ * Reads the lexicon pack file named in the settings. The file is parsed again only after it
+ * changed, so problems with it are reported once instead of on every run.
+ */
+export class LexiconPackLoader {
+  private cached: { key: string; packs: LexiconPack[] } | null = null;
+
+  constructor(private readonly app: App, private readonly logger: ILogger) {}
+
+  async load(path: string): Promise<LexiconPack[]> {
+    if (path.trim() === '') return [];
+    const safe = normalizeVaultRelativePath(path);
+    const file = safe.ok ? this.app.vault.getAbstractFileByPath(safe.value.path) : null;
+    const key = file instanceof TFile ? `${file.path}@${file.stat.mtime}` : `missing:${path}`;
+    if (this.cached?.key === key) return this.cached.packs;
+
+    const { packs, problems } = file instanceof TFile ? await this.read(file) : missing(path);
+    if (problems.length > 0) {
+      this.logger.warn('Lexicon packs ignored', { path, problems });
+      new Notice(`Smart Slides lexicon packs: ${problems.join('; ')}`);
+    }
+    this.cached = { key, packs };
+    return packs;
+  }
+
+  private async read(file: TFile): Promise<{ packs: LexiconPack[]; problems: string[] }> {
+    let json: unknown;
+    try {
+      json = JSON.parse(await this.app.vault.cachedRead(file));
+    } catch (e) {
+      return { packs: [], problems: [`${file.path} is not valid JSON: ${(e as Error).message}`] };
+    }
+    const { packs, warnings } = parseLexiconPacks(json);
+    return { packs, problems: warnings };
+  }
+}
+
+function missing(path: string): { packs: LexiconPack[]; problems: string[] } {
+  return { packs: [], problems: [`${path} not found in the vault`] };
+}
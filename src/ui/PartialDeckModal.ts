@@ -0,0 +1,55 @@
+import { App, Modal, Setting } from 'obsidian';
+
+export type PartialDeckAction = 'keep' | 'discard';
+
+/**
+ * Asks what to do with the slides composed before a generation run was cancelled.
+ * Closing the modal without choosing counts as 'discard'.
+ */
+export class PartialDeckModal extends Modal {
+  private readonly slideCount: number;
+  private readonly onAction: (action: PartialDeckAction) => void;
+  private chosen = false;
+
+  constructor(app: App, slideCount: number, onAction: (action: PartialDeckAction) => void) {
+    super(app);
+    this.slideCount = slideCount;
+    this.onAction = onAction;
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl('h2', { text: 'Generation cancelled' });
+    contentEl.createEl('p', {
+      text: `${this.slideCount} slide(s) were composed before cancelling. Keep them as a partial deck, or discard them and leave your vault unchanged.`,
+    });
+
+    new Setting(contentEl)
+      .addButton((b) =>
+        b
+          .setButtonText('Keep partial deck')
+          .setCta()
+          .onClick(() => this.choose('keep')),
+      )
+      .addButton((b) => b.setButtonText('Discard').onClick(() => this.choose('discard')));
+  }
+
+  onClose(): void {
+    if (!this.chosen) {
+      this.chosen = true;
+      this.onAction('discard');
+    }
+    this.contentEl.empty();
+  }
+
+  private choose(action: PartialDeckAction): void {
+    this.chosen = true;
+    this.onAction(action);
+    this.close();
+  }
+}
+
+export function askPartialDeckAction(app: App, slideCount: number): Promise<PartialDeckAction> {
+  return new Promise((resolve) => new PartialDeckModal(app, slideCount, resolve).open());
+}
@@ -1,3 +1,5 @@
+import type { OrchestratorProgress } from '../services/PresentationOrchestrator';
+
 export type ProgressPhase =
   | 'idle'
   | 'analysis'
@@ -17,24 +19,57 @@ export interface ProgressUpdate {
 
 export type ProgressListener = (update: ProgressUpdate) => void;
 
+const ORCHESTRATOR_PHASES: Record<OrchestratorProgress['phase'], ProgressPhase> = {
+  idle: 'idle',
+  drafting: 'analysis',
+  analyzing: 'analysis',
+  layouting: 'layout',
+  styling: 'style',
+  composing: 'compose',
+  done: 'finalize',
+  cancelled: 'finalize',
+  error: 'finalize',
+};
+
+/**
+ * Maps orchestrator progress onto controller phases. Percentages are scaled to `ceiling`
+ * so the caller keeps headroom for work done after the pipeline (e.g. writing the deck).
+ */
+export function fromOrchestratorProgress(
+  progress: OrchestratorProgress,
+  ceiling = 90,
+): Omit<ProgressUpdate, 'etaMs'> {
+  const details = progress.details ?? progress.phase;
+  return {
+    percent: Math.round((progress.percent * ceiling) / 100),
+    phase: ORCHESTRATOR_PHASES[progress.phase],
+    message: progress.phase === 'error' ? `Error: ${details}` : details,
+  };
+}
+
 /**
  * ProgressController centralizes progress reporting, ETA estimation and cancellation.
+ * Cancelling aborts `signal`, which callers pass down into the generation pipeline.
  */
 export class ProgressController {
   private listeners: Set<ProgressListener> = new Set();
   private startTimeMs: number | null = null;
   private lastPercent = 0;
+  private lastUpdate: ProgressUpdate | null = null;
   private cancelledFlag = false;
+  private abortController = new AbortController();
 
   start(): void {
     this.startTimeMs = Date.now();
     this.lastPercent = 0;
     this.cancelledFlag = false;
+    if (this.abortController.signal.aborted) this.abortController = new AbortController();
     this.emit({ percent: 0, phase: 'idle', message: 'Starting…' });
   }
 
   cancel(): void {
     this.cancelledFlag = true;
+    this.abortController.abort();
     this.emit({ percent: this.lastPercent, phase: 'finalize', message: 'Cancelling…' });
   }
 
@@ -46,6 +81,10 @@ export class ProgressController {
     return this.cancelledFlag;
   }
 
+  get signal(): AbortSignal {
+    return this.abortController.signal;
+  }
+
   on(listener: ProgressListener): () => void {
     this.listeners.add(listener);
     return () => this.listeners.delete(listener);
@@ -57,6 +96,12 @@ export class ProgressController {
     this.emit({ ...partial, etaMs, percent: this.lastPercent });
   }
 
+  /** Re-emits the latest update with a preview of partial output (e.g. the newest slide). */
+  preview(snippet: string): void {
+    if (!this.lastUpdate) return;
+    this.emit({ ...this.lastUpdate, previewSnippet: snippet });
+  }
+
   private estimateEtaMs(percent: number): number | undefined {
     if (this.startTimeMs == null) return undefined;
     const clamped = Math.max(0.0001, Math.min(99.9999, percent));
@@ -67,6 +112,7 @@ export class ProgressController {
   }
 
   private emit(update: ProgressUpdate): void {
+    this.lastUpdate = update;
     for (const listener of this.listeners) {
       try {
         listener(update);
@@ -10,7 +10,11 @@ export class ProgressModal extends Modal {
   private previewEl!: HTMLDivElement;
   private errorEl!: HTMLDivElement;
 
-  constructor(app: App, controller: ProgressController) {
+  constructor(
+    app: App,
+    controller: ProgressController,
+    private readonly title = 'Generating presentation…',
+  ) {
     super(app);
     this.controller = controller;
   }
@@ -23,7 +27,7 @@ export class ProgressModal extends Modal {
 
     contentEl.empty();
 
-    const title = contentEl.createEl('h2', { text: 'Generating presentation…' });
+    const title = contentEl.createEl('h2', { text: this.title });
     title.id = 'smart-slides-progress-title';
 
     const barContainer = contentEl.createEl('div', {
@@ -0,0 +1,56 @@
+import { App, Modal, Setting } from 'obsidian';
+
+/**
+ * Asks for the topic of a prompt-only deck. Resolves with null when the modal is closed
+ * without submitting.
+ */
+export class PromptModal extends Modal {
+  private readonly onSubmit: (prompt: string | null) => void;
+  private prompt = '';
+  private submitted = false;
+
+  constructor(app: App, onSubmit: (prompt: string | null) => void) {
+    super(app);
+    this.onSubmit = onSubmit;
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl('h2', { text: 'Generate slides from a prompt' });
+    contentEl.createEl('p', {
+      text: 'Describe the presentation, e.g. "AI in healthcare for hospital executives".',
+    });
+
+    new Setting(contentEl).setName('Prompt').addTextArea((t) =>
+      t.setPlaceholder('Topic and audience').onChange((value) => {
+        this.prompt = value;
+      }),
+    );
+    new Setting(contentEl).addButton((b) =>
+      b
+        .setButtonText('Generate')
+        .setCta()
+        .onClick(() => this.submit()),
+    );
+  }
+
+  onClose(): void {
+    if (!this.submitted) {
+      this.submitted = true;
+      this.onSubmit(null);
+    }
+    this.contentEl.empty();
+  }
+
+  private submit(): void {
+    if (this.prompt.trim().length === 0) return;
+    this.submitted = true;
+    this.onSubmit(this.prompt.trim());
+    this.close();
+  }
+}
+
+export function askForPrompt(app: App): Promise<string | null> {
+  return new Promise((resolve) => new PromptModal(app, resolve).open());
+}
@@ -0,0 +1,72 @@
+import { App } from 'obsidian';
+import { TextGeneratorAdapter, TextGeneratorApi } from '../core/integration/TextGeneratorAdapter';
+import { ILogger } from '../utils/Logger';
+
+export const TEXT_GENERATOR_PLUGIN_ID = 'obsidian-textgenerator-plugin';
+
+type GenerateFn = (prompt: string, settings?: { seed?: number }) => Promise<unknown>;
+
+/**
+ * Wraps the installed Text Generator plugin in a TextGeneratorAdapter, or returns undefined when
+ * the plugin is missing or disabled. The plugin has no published API; this relies on its
+ * `textGenerator.gen(prompt, settings)` method, so a changed plugin reads as "not installed". The
+ * run's seed goes along in the settings for models that support seeding.
+ */
+export function findTextGenerator(app: App, logger: ILogger): TextGeneratorAdapter | undefined {
+  const plugin = enabledPlugin(app, TEXT_GENERATOR_PLUGIN_ID);
+  const gen = plugin ? generateFunction(plugin) : undefined;
+  if (!plugin || !gen) return undefined;
+  const manifest = field(plugin, 'manifest');
+  const api: TextGeneratorApi = {
+    generate: async (prompt, options) => {
+      if (options?.signal?.aborted) throw new Error('aborted');
+      const text = await gen(
+        prompt,
+        options?.seed === undefined ? undefined : { seed: options.seed },
+      );
+      if (typeof text !== 'string') throw new Error('Text Generator returned no text');
+      return text;
+    },
+  };
+  return new TextGeneratorAdapter(
+    {
+      id: TEXT_GENERATOR_PLUGIN_ID,
+      name: stringField(manifest, 'name') ?? 'Text Generator',
+      version: stringField(manifest, 'version') ?? 'unknown',
+    },
+    api,
+    {
+      logger: {
+        info: (m, meta) => logger.info(m, { meta }),
+        warn: (m, meta) => logger.warn(m, { meta }),
+        error: (m, meta) => logger.error(m, { meta }),
+      },
+    },
+  );
+}
+
+function enabledPlugin(app: App, id: string): object | undefined {
+  // `app.plugins` is not part of the public API typings
+  const plugins = field(field(app, 'plugins'), 'plugins');
+  const plugin = field(plugins, id);
+  return typeof plugin === 'object' && plugin !== null ? plugin : undefined;
+}
+
+function generateFunction(plugin: object): GenerateFn | undefined {
+  const generator = field(plugin, 'textGenerator');
+  const gen = field(generator, 'gen');
+  return typeof gen === 'function'
+    ? (prompt, settings) => gen.call(generator, prompt, settings)
+    : undefined;
+}
+
+function field(value: unknown, key: string): unknown {
+  return typeof value === 'object' && value !== null
+    ? (value as Record<string, unknown>)[key]
+    : undefined;
+}
+
+function stringField(value: unknown, key: string): string | undefined {
+  const v = field(value, key);
+  return typeof v === 'string' ? v : undefined;
+}
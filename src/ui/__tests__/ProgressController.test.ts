@@ -1,4 +1,8 @@
-import { ProgressController, ProgressUpdate } from '../ProgressController';
+import {
+  ProgressController,
+  ProgressUpdate,
+  fromOrchestratorProgress,
+} from '../ProgressController';
 
 function delay(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
@@ -77,3 +81,47 @@ describe('ProgressController', () => {
     expect(okUpdates.length).toBeGreaterThanOrEqual(2);
   });
 });
+
+describe('ProgressController cancellation signal', () => {
+  test('cancel() aborts the signal and start() hands out a fresh one', () => {
+    const controller = new ProgressController();
+    controller.start();
+    const first = controller.signal;
+    controller.cancel();
+    expect(first.aborted).toBe(true);
+
+    controller.start();
+    expect(controller.signal.aborted).toBe(false);
+    expect(controller.signal).not.toBe(first);
+  });
+});
+
+describe('ProgressController preview', () => {
+  test('preview() re-emits the latest update with a snippet', () => {
+    const controller = new ProgressController();
+    const updates: ProgressUpdate[] = [];
+    controller.on((u: ProgressUpdate) => updates.push(u));
+    controller.preview('ignored before any update');
+    expect(updates.length).toBe(0);
+
+    controller.start();
+    controller.update({ percent: 85, phase: 'compose', message: 'Composed slide 1/2' });
+    controller.preview('# Slide one');
+    const last = updates[updates.length - 1];
+    expect(last.previewSnippet).toBe('# Slide one');
+    expect(last.percent).toBe(85);
+    expect(last.phase).toBe('compose');
+  });
+});
+
+describe('fromOrchestratorProgress', () => {
+  test('maps phases and scales percent', () => {
+    const u = fromOrchestratorProgress({ phase: 'layouting', percent: 50, details: 'Layout' });
+    expect(u).toEqual({ percent: 45, phase: 'layout', message: 'Layout' });
+    const done = fromOrchestratorProgress({ phase: 'done', percent: 100 }, 100);
+    expect(done.percent).toBe(100);
+    expect(done.phase).toBe('finalize');
+    const failed = fromOrchestratorProgress({ phase: 'error', percent: 100, details: 'boom' });
+    expect(failed.message).toBe('Error: boom');
+  });
+});
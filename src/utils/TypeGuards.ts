@@ -0,0 +1,9 @@
+/**
+ * Narrowing helpers for values parsed from JSON or YAML, such as settings, frontmatter and
+ * files read from the vault.
+ */
+
+/** A plain object: not null and not an array. */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}